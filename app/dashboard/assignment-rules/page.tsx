@@ -0,0 +1,198 @@
+/**
+ * Assignment Rules Page
+ * Round-robin and territory rules that assign new and imported leads
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { assignmentRulesApi, getApiErrorMessage } from '@/lib/api';
+import { ASSIGNMENT_RULE_TYPE_LABELS, describeAssignmentRule, useAssignableUsers } from '@/lib/assignment';
+import { useTerritories } from '@/lib/territories';
+import { AssignmentRule, AssignmentRuleCreate } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { AssignmentRuleModal } from '@/components/assignment/assignment-rule-modal';
+
+export default function AssignmentRulesPage() {
+  const queryClient = useQueryClient();
+  const { data: users } = useAssignableUsers();
+  const { data: territories } = useTerritories();
+  // undefined: closed, null: creating a new rule
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null | undefined>(undefined);
+
+  const { data: rules, isLoading, error } = useQuery({
+    queryKey: ['assignment-rules'],
+    queryFn: assignmentRulesApi.listRules,
+    select: (data) => [...data].sort((a, b) => a.priority - b.priority),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: Array<{ id: number; changes: Partial<AssignmentRuleCreate> }>) =>
+      Promise.all(updates.map(({ id, changes }) => assignmentRulesApi.updateRule(id, changes))),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to update rule')}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: number) => assignmentRulesApi.deleteRule(ruleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete rule')}`);
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => assignmentRulesApi.applyRules({ filters: { unassigned: true } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+      alert(
+        `Assigned ${result.succeeded.toLocaleString()} of ${result.total.toLocaleString()} unassigned leads.` +
+          (result.total > result.succeeded ? '\nThe rest did not match any active rule.' : '')
+      );
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to run assignment rules')}`);
+    },
+  });
+
+  // Swap priorities with the neighbouring rule
+  const handleMove = (index: number, direction: -1 | 1) => {
+    if (!rules) return;
+    const rule = rules[index];
+    const other = rules[index + direction];
+    if (!other) return;
+    updateMutation.mutate([
+      { id: rule.id, changes: { priority: other.priority } },
+      { id: other.id, changes: { priority: rule.priority } },
+    ]);
+  };
+
+  const handleDelete = (rule: AssignmentRule) => {
+    if (confirm(`Delete the rule "${rule.name}"? Leads it already assigned keep their assignee.`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const handleApply = () => {
+    if (confirm('Run the active rules over every unassigned lead now?')) {
+      applyMutation.mutate();
+    }
+  };
+
+  const nextPriority = rules?.length ? Math.max(...rules.map((r) => r.priority)) + 1 : 1;
+
+  return (
+    <RouteGuard requireManager>
+      <div className="space-y-6">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Assignment Rules</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              New and imported leads without an assignee go to the first active rule that matches, top to bottom
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={applyMutation.isPending || !rules?.some((r) => r.is_active)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {applyMutation.isPending ? 'Assigning...' : 'Run on unassigned leads'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingRule(null)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              New Rule
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {isLoading ? (
+            <div className="px-4 py-6 text-sm text-gray-500">Loading...</div>
+          ) : error ? (
+            <div className="px-4 py-6 text-sm text-red-600">Failed to load assignment rules.</div>
+          ) : !rules?.length ? (
+            <div className="px-4 py-6 text-sm text-gray-500">
+              No rules yet. New leads stay unassigned until someone assigns them.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {rules.map((rule, index) => (
+                <li key={rule.id} className={`px-4 py-4 flex flex-wrap items-center gap-4 ${rule.is_active ? '' : 'opacity-60'}`}>
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || updateMutation.isPending}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === rules.length - 1 || updateMutation.isPending}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      ▼
+                    </button>
+                  </div>
+                  <div className="flex-1 min-w-[16rem]">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-gray-900">{rule.name}</span>
+                      <span className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                        {ASSIGNMENT_RULE_TYPE_LABELS[rule.rule_type]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">{describeAssignmentRule(rule, users, territories)}</p>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rule.is_active}
+                      onChange={(e) => updateMutation.mutate([{ id: rule.id, changes: { is_active: e.target.checked } }])}
+                      disabled={updateMutation.isPending}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Active
+                  </label>
+                  <div className="flex items-center gap-3 text-sm font-medium">
+                    <button type="button" onClick={() => setEditingRule(rule)} className="text-indigo-600 hover:text-indigo-800">
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {editingRule !== undefined && (
+        <AssignmentRuleModal rule={editingRule} nextPriority={nextPriority} onClose={() => setEditingRule(undefined)} />
+      )}
+    </RouteGuard>
+  );
+}
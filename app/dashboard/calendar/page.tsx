@@ -0,0 +1,391 @@
+/**
+ * Calendar Page
+ * Month, week and day views of follow-ups and last contacts, with
+ * drag-to-reschedule and .ics export
+ */
+
+'use client';
+
+import { DragEvent, useState } from 'react';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import {
+  CALENDAR_EVENT_KIND_LABELS,
+  CalendarEvent,
+  CalendarEventKind,
+  CalendarView,
+  buildCalendarEvents,
+  formatCalendarTitle,
+  getVisibleDays,
+  isSameDay,
+  moveToDay,
+  shiftAnchor,
+} from '@/lib/calendar';
+import { downloadFile } from '@/lib/csv';
+import { addDays } from '@/lib/followups';
+import { buildIcs } from '@/lib/ics';
+import { fetchAllLeads } from '@/lib/lead-export';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { useCanManage } from '@/lib/store/auth';
+import { Lead, LeadListParams, LeadStatus } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { CalendarEventChip } from '@/components/calendar/calendar-event-chip';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MONTH_CELL_LIMIT = 4;
+const FOLLOWUP_DURATION_MINUTES = 30;
+
+const sortByTime = (events: CalendarEvent[]) => [...events].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+export default function CalendarPage() {
+  const queryClient = useQueryClient();
+  const canManage = useCanManage();
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [kinds, setKinds] = useState<CalendarEventKind[]>(['followup', 'contact']);
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
+  const [dragging, setDragging] = useState<CalendarEvent | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = getVisibleDays(view, anchor);
+  const rangeStart = days[0].toISOString();
+  const rangeEnd = addDays(days[days.length - 1], 1).toISOString();
+  const scopeParams: LeadListParams = scope === 'mine' ? { assigned_to_me: true } : {};
+
+  const followupsKey = ['leads', 'calendar', 'followup', scope, rangeStart, rangeEnd];
+  const followupsQuery = useQuery({
+    queryKey: followupsKey,
+    queryFn: ({ signal }) =>
+      fetchAllLeads(
+        { ...scopeParams, followup_after: rangeStart, followup_before: rangeEnd, sort_by: 'next_followup_date', sort_order: 'asc' },
+        { signal }
+      ),
+    enabled: kinds.includes('followup'),
+    placeholderData: keepPreviousData,
+  });
+
+  const contactsQuery = useQuery({
+    queryKey: ['leads', 'calendar', 'contact', scope, rangeStart, rangeEnd],
+    queryFn: ({ signal }) =>
+      fetchAllLeads(
+        { ...scopeParams, contact_after: rangeStart, contact_before: rangeEnd, sort_by: 'last_contact_date', sort_order: 'asc' },
+        { signal }
+      ),
+    enabled: kinds.includes('contact'),
+    placeholderData: keepPreviousData,
+  });
+
+  const events = buildCalendarEvents(
+    kinds.includes('followup') ? followupsQuery.data || [] : [],
+    kinds.includes('contact') ? contactsQuery.data || [] : []
+  );
+  const eventsOn = (day: Date) => sortByTime(events.filter((event) => isSameDay(event.at, day)));
+  const isFetching = followupsQuery.isFetching || contactsQuery.isFetching;
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ lead, at }: { lead: Lead; at: Date }) =>
+      leadsApi.updateLead(lead.id, { next_followup_date: at.toISOString() }, 'calendar'),
+    onMutate: async ({ lead, at }) => {
+      await queryClient.cancelQueries({ queryKey: followupsKey });
+      const previous = queryClient.getQueryData<Lead[]>(followupsKey);
+      queryClient.setQueryData<Lead[]>(followupsKey, (leads) =>
+        leads?.map((l) => (l.id === lead.id ? { ...l, next_followup_date: at.toISOString() } : l))
+      );
+      return { previous };
+    },
+    onError: (error, { lead }, context) => {
+      if (context?.previous) queryClient.setQueryData(followupsKey, context.previous);
+      alert(`Could not reschedule "${lead.name}": ${getApiErrorMessage(error, 'Failed to update lead')}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    },
+  });
+
+  const handleDrop = (day: Date, hour?: number) => {
+    if (dragging) {
+      const at = moveToDay(dragging.at, day, hour);
+      if (at.getTime() !== dragging.at.getTime()) {
+        rescheduleMutation.mutate({ lead: dragging.lead, at });
+      }
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  // Props that make an element accept dropped follow-ups
+  const dropZone = (targetKey: string, day: Date, hour?: number) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== targetKey) setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === targetKey ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      handleDrop(day, hour);
+    },
+  });
+
+  const chip = (event: CalendarEvent, showTime = true) => (
+    <CalendarEventChip
+      key={event.key}
+      event={event}
+      showTime={showTime}
+      onDragStart={setDragging}
+      onDragEnd={() => {
+        setDragging(null);
+        setDropTarget(null);
+      }}
+    />
+  );
+
+  const handleExport = () => {
+    const followups = sortByTime(events.filter((event) => event.kind === 'followup'));
+    if (followups.length === 0) {
+      alert('There are no follow-ups in this range to export.');
+      return;
+    }
+    const ics = buildIcs(
+      followups.map(({ lead, at }) => ({
+        uid: `lead-${lead.id}-followup@leads-admin`,
+        start: at,
+        durationMinutes: FOLLOWUP_DURATION_MINUTES,
+        summary: `Follow up: ${lead.name}`,
+        description: [
+          `Status: ${STATUS_LABELS[lead.status]}`,
+          lead.phone && `Phone: ${lead.phone}`,
+          lead.email && `Email: ${lead.email}`,
+          lead.notes_summary,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        location: [lead.address, lead.city, lead.state, lead.zip_code].filter(Boolean).join(', '),
+        url: `${window.location.origin}/dashboard/leads/${lead.id}`,
+      })),
+      'Lead follow-ups'
+    );
+    downloadFile(ics, `follow-ups-${rangeStart.slice(0, 10)}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const toggleKind = (kind: CalendarEventKind) => {
+    setKinds(kinds.includes(kind) ? kinds.filter((k) => k !== kind) : [...kinds, kind]);
+  };
+
+  const today = new Date();
+  const buttonClass =
+    'inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50';
+  const dropClass = (targetKey: string) => (dropTarget === targetKey ? 'bg-indigo-50 ring-2 ring-inset ring-indigo-300' : '');
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Calendar</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Drag a follow-up to another day{view === 'day' ? ' or hour' : ''} to reschedule it
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex flex-wrap items-center gap-2">
+            {canManage && (
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as 'mine' | 'all')}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="mine">Assigned to me</option>
+                <option value="all">Everyone</option>
+              </select>
+            )}
+            <button type="button" onClick={handleExport} className={buttonClass}>
+              Export .ics
+            </button>
+          </div>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-white shadow rounded-lg p-4 flex flex-wrap items-center gap-3">
+          <button type="button" onClick={() => setAnchor(new Date())} className={buttonClass}>
+            Today
+          </button>
+          <div className="flex">
+            <button
+              type="button"
+              onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+              className="px-3 py-2 border border-gray-300 rounded-l-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+              aria-label="Previous"
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+              className="px-3 py-2 border border-l-0 border-gray-300 rounded-r-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+              aria-label="Next"
+            >
+              ›
+            </button>
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900">{formatCalendarTitle(view, anchor, days)}</h2>
+          {isFetching && <span className="text-xs text-gray-400">Loading...</span>}
+
+          <div className="flex-1"></div>
+
+          {(Object.keys(CALENDAR_EVENT_KIND_LABELS) as CalendarEventKind[]).map((kind) => (
+            <label key={kind} className="flex items-center gap-1.5 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={kinds.includes(kind)}
+                onChange={() => toggleKind(kind)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {CALENDAR_EVENT_KIND_LABELS[kind]}
+            </label>
+          ))}
+
+          <div className="inline-flex rounded-md shadow-sm">
+            {(['month', 'week', 'day'] as CalendarView[]).map((v, i) => (
+              <button
+                key={v}
+                type="button"
+                onClick={() => setView(v)}
+                className={`px-3 py-2 text-sm font-medium border border-gray-300 capitalize ${i > 0 ? '-ml-px' : 'rounded-l-md'} ${
+                  i === 2 ? 'rounded-r-md' : ''
+                } ${view === v ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Status legend */}
+        <div className="flex flex-wrap gap-2">
+          {Object.values(LeadStatus).map((status) => (
+            <span key={status} className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_COLORS[status]}`}>
+              {STATUS_LABELS[status]}
+            </span>
+          ))}
+          <span className="text-xs text-gray-500 self-center">⏰ follow-up · ✓ last contact</span>
+        </div>
+
+        {(followupsQuery.error || contactsQuery.error) && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">Failed to load calendar events. Please try again.</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          {view === 'month' && (
+            <>
+              <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+                {WEEKDAYS.map((weekday) => (
+                  <div key={weekday} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase">
+                    {weekday}
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7">
+                {days.map((day) => {
+                  const dayEvents = eventsOn(day);
+                  const targetKey = day.toDateString();
+                  return (
+                    <div
+                      key={targetKey}
+                      {...dropZone(targetKey, day)}
+                      className={`min-h-[7rem] border-b border-r border-gray-100 p-1 space-y-0.5 ${
+                        day.getMonth() === anchor.getMonth() ? '' : 'bg-gray-50'
+                      } ${dropClass(targetKey)}`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setAnchor(day);
+                          setView('day');
+                        }}
+                        className={`text-xs font-medium px-1.5 py-0.5 rounded-full ${
+                          isSameDay(day, today)
+                            ? 'bg-indigo-600 text-white'
+                            : day.getMonth() === anchor.getMonth()
+                              ? 'text-gray-900 hover:bg-gray-100'
+                              : 'text-gray-400 hover:bg-gray-100'
+                        }`}
+                      >
+                        {day.getDate()}
+                      </button>
+                      {dayEvents.slice(0, MONTH_CELL_LIMIT).map((event) => chip(event, false))}
+                      {dayEvents.length > MONTH_CELL_LIMIT && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setAnchor(day);
+                            setView('day');
+                          }}
+                          className="block text-xs font-medium text-indigo-600 hover:text-indigo-800 px-1.5"
+                        >
+                          +{dayEvents.length - MONTH_CELL_LIMIT} more
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {view === 'week' && (
+            <div className="grid grid-cols-7 divide-x divide-gray-100">
+              {days.map((day) => {
+                const targetKey = day.toDateString();
+                return (
+                  <div key={targetKey} {...dropZone(targetKey, day)} className={`min-h-[24rem] ${dropClass(targetKey)}`}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setAnchor(day);
+                        setView('day');
+                      }}
+                      className={`w-full px-2 py-2 text-left border-b border-gray-200 text-sm font-medium ${
+                        isSameDay(day, today) ? 'bg-indigo-50 text-indigo-700' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {WEEKDAYS[day.getDay()]} {day.getDate()}
+                    </button>
+                    <div className="p-1 space-y-1">{eventsOn(day).map((event) => chip(event))}</div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {view === 'day' && (
+            <div className="divide-y divide-gray-100">
+              {HOURS.map((hour) => {
+                const targetKey = `${days[0].toDateString()}-${hour}`;
+                const hourEvents = eventsOn(days[0]).filter((event) => event.at.getHours() === hour);
+                return (
+                  <div key={hour} {...dropZone(targetKey, days[0], hour)} className={`flex min-h-[2.5rem] ${dropClass(targetKey)}`}>
+                    <div className="w-20 flex-shrink-0 px-2 py-1 text-xs text-gray-500 text-right">
+                      {new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' })}
+                    </div>
+                    <div className="flex-1 p-1 flex flex-wrap gap-1">
+                      {hourEvents.map((event) => (
+                        <div key={event.key} className="max-w-xs">
+                          {chip(event)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -2,15 +2,26 @@
 
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { leadsApi } from '@/lib/api';
+import { assignmentRulesApi, leadsApi, territoriesApi } from '@/lib/api';
 import { useRouter } from 'next/navigation';
+import { useAssignableUsers } from '@/lib/assignment';
+import { useCanManage } from '@/lib/store/auth';
+import { toStateCode } from '@/lib/map/us-states';
+import { useTerritories } from '@/lib/territories';
+import { Territory } from '@/lib/types';
+import { TerritoryCard } from '@/components/territories/territory-card';
+import { TerritoryModal } from '@/components/territories/territory-modal';
+import { CitiesMapView } from '@/components/map/cities-map-view';
 
 export default function CitiesPage() {
   const router = useRouter();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedState, setSelectedState] = useState<string>('ALL');
-  const [viewMode, setViewMode] = useState<'cities' | 'states'>('cities');
+  const [viewMode, setViewMode] = useState<'cities' | 'states' | 'territories' | 'map'>('cities');
   const [sortBy, setSortBy] = useState<'leads' | 'name'>('leads');
+  const canManage = useCanManage();
+  // undefined: closed, null: creating a new territory
+  const [editingTerritory, setEditingTerritory] = useState<Territory | null | undefined>(undefined);
 
   // Fetch geographic stats
   const { data: geoData, isLoading, error } = useQuery({
@@ -18,9 +29,43 @@ export default function CitiesPage() {
     queryFn: () => leadsApi.getGeographicStats(),
   });
 
+  const { data: territories } = useTerritories();
+  const { data: users } = useAssignableUsers();
+
+  const { data: territoryStats } = useQuery({
+    queryKey: ['territories', 'stats'],
+    queryFn: territoriesApi.getTerritoryStats,
+    enabled: viewMode === 'territories',
+  });
+
+  // Territory rules show whether each territory routes its new leads
+  const { data: assignmentRules } = useQuery({
+    queryKey: ['assignment-rules'],
+    queryFn: assignmentRulesApi.listRules,
+    enabled: viewMode === 'territories' && canManage,
+  });
+
+  const filteredTerritories = useMemo(() => {
+    if (!territories) return [];
+    const search = searchTerm.toLowerCase();
+    const totalOf = (t: Territory) => territoryStats?.find((s) => s.territory_id === t.id)?.total_leads ?? 0;
+
+    return territories
+      .filter((t) =>
+        (search === '' ||
+          t.name.toLowerCase().includes(search) ||
+          t.cities.some((c) => c.toLowerCase().includes(search)) ||
+          t.states.some((st) => st.toLowerCase().includes(search))) &&
+        (selectedState === 'ALL' || t.states.includes(selectedState))
+      )
+      .sort((a, b) => (sortBy === 'leads' ? totalOf(b) - totalOf(a) : a.name.localeCompare(b.name)));
+  }, [territories, territoryStats, searchTerm, selectedState, sortBy]);
+
+  const nextRulePriority = assignmentRules?.length ? Math.max(...assignmentRules.map((r) => r.priority)) + 1 : 1;
+
   // Filter and sort data
   const filteredData = useMemo(() => {
-    if (!geoData?.data) return [];
+    if (!geoData?.data || viewMode === 'territories' || viewMode === 'map') return [];
 
     const data = viewMode === 'cities' ? geoData.data.cities : geoData.data.states;
 
@@ -54,6 +99,21 @@ export default function CitiesPage() {
     return geoData.data.states.map((s: any) => s.state).sort();
   }, [geoData]);
 
+  // Choropleth totals keyed by state code, whichever form the leads use
+  const stateTotals = useMemo(() => {
+    const totals: Record<string, number> = {};
+    geoData?.data?.states.forEach((s) => {
+      const code = toStateCode(s.state);
+      if (code) totals[code] = (totals[code] || 0) + s.total_leads;
+    });
+    return totals;
+  }, [geoData]);
+
+  // Clicking a state on the map filters by it, matching the filter's spelling
+  const selectStateCode = (code: string) => {
+    setSelectedState(states.find((state: string) => toStateCode(state) === code) || code);
+  };
+
   // Navigate to leads filtered by city
   const handleCityClick = (city: string, state: string) => {
     // Use dedicated city parameter for exact filtering
@@ -203,121 +263,207 @@ export default function CitiesPage() {
             >
               🗺️ States View
             </button>
+            <button
+              onClick={() => setViewMode('territories')}
+              className={`flex-1 px-6 py-3 rounded-xl font-semibold transition-all ${
+                viewMode === 'territories'
+                  ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              🧭 Territories View
+            </button>
+            <button
+              onClick={() => setViewMode('map')}
+              className={`flex-1 px-6 py-3 rounded-xl font-semibold transition-all ${
+                viewMode === 'map'
+                  ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg scale-105'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              📍 Map View
+            </button>
           </div>
         </div>
       </div>
 
       {/* Results Count */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4">
-        <p className="text-gray-600 font-medium">
-          Showing {filteredData.length} {viewMode === 'cities' ? 'cities' : 'states'}
-        </p>
-      </div>
+      {viewMode !== 'map' && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4 flex items-center justify-between">
+          <p className="text-gray-600 font-medium">
+            Showing {viewMode === 'territories' ? filteredTerritories.length : filteredData.length} {viewMode}
+          </p>
+          {viewMode === 'territories' && canManage && (
+            <button
+              onClick={() => setEditingTerritory(null)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              New Territory
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Map */}
+      {viewMode === 'map' && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <CitiesMapView state={selectedState} stateTotals={stateTotals} onStateClick={selectStateCode} />
+        </div>
+      )}
+
+      {/* Territory Cards */}
+      {viewMode === 'territories' && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredTerritories.map((territory) => (
+              <TerritoryCard
+                key={territory.id}
+                territory={territory}
+                stats={territoryStats?.find((s) => s.territory_id === territory.id)}
+                users={users}
+                routingRule={assignmentRules?.find((r) => r.rule_type === 'territory' && r.territory_id === territory.id)}
+                nextRulePriority={nextRulePriority}
+                canManage={canManage}
+                onOpenLeads={() => router.push(`/dashboard/leads?territory=${territory.id}`)}
+                onEdit={() => setEditingTerritory(territory)}
+              />
+            ))}
+          </div>
+
+          {filteredTerritories.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🧭</div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No Territories Found</h3>
+              <p className="text-gray-600">
+                {territories?.length ? 'Try adjusting your search or filters' : 'Managers can group states, cities and zip codes into territories'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {editingTerritory !== undefined && (
+        <TerritoryModal territory={editingTerritory} onClose={() => setEditingTerritory(undefined)} />
+      )}
 
       {/* Cards Grid */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredData.map((item: any, index: number) => {
-            const isCity = viewMode === 'cities';
-            const topStatus = Object.entries(item.statuses).sort((a: any, b: any) => (b[1] as number) - (a[1] as number))[0] as [string, number] | undefined;
-
-            return (
-              <div
-                key={index}
-                onClick={() => isCity ? handleCityClick(item.city, item.state) : handleStateClick(item.state)}
-                className="group bg-white rounded-2xl shadow-lg hover:shadow-2xl transition-all duration-300 cursor-pointer overflow-hidden border-2 border-gray-100 hover:border-indigo-300 hover:-translate-y-1"
-              >
-                {/* Card Header with Gradient */}
-                <div className="bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 p-6 text-white">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <h3 className="text-2xl font-bold mb-1">
-                        {isCity ? item.city : item.state}
-                      </h3>
-                      {isCity && (
-                        <p className="text-indigo-100 text-sm">{item.state}</p>
-                      )}
+      {(viewMode === 'cities' || viewMode === 'states') && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredData.map((item: any, index: number) => {
+              const isCity = viewMode === 'cities';
+              const topStatus = Object.entries(item.statuses).sort((a: any, b: any) => (b[1] as number) - (a[1] as number))[0] as [string, number] | undefined;
+
+              return (
+                <div
+                  key={index}
+                  onClick={() => isCity ? handleCityClick(item.city, item.state) : handleStateClick(item.state)}
+                  className="group bg-white rounded-2xl shadow-lg hover:shadow-2xl transition-all duration-300 cursor-pointer overflow-hidden border-2 border-gray-100 hover:border-indigo-300 hover:-translate-y-1"
+                >
+                  {/* Card Header with Gradient */}
+                  <div className="bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 p-6 text-white">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h3 className="text-2xl font-bold mb-1">
+                          {isCity ? item.city : item.state}
+                        </h3>
+                        {isCity && (
+                          <p className="text-indigo-100 text-sm">{item.state}</p>
+                        )}
+                      </div>
+                      <div className="text-5xl opacity-20">
+                        {isCity ? '🏙️' : '🗺️'}
+                      </div>
                     </div>
-                    <div className="text-5xl opacity-20">
-                      {isCity ? '🏙️' : '🗺️'}
+
+                    {/* Lead Count */}
+                    <div className="mt-4 bg-white/20 backdrop-blur-sm rounded-xl p-3">
+                      <div className="text-white/80 text-xs font-medium">Total Leads</div>
+                      <div className="text-3xl font-bold">{item.total_leads.toLocaleString()}</div>
                     </div>
                   </div>
 
-                  {/* Lead Count */}
-                  <div className="mt-4 bg-white/20 backdrop-blur-sm rounded-xl p-3">
-                    <div className="text-white/80 text-xs font-medium">Total Leads</div>
-                    <div className="text-3xl font-bold">{item.total_leads.toLocaleString()}</div>
-                  </div>
-                </div>
+                  {/* Card Body */}
+                  <div className="p-6">
+                    {/* Top Status */}
+                    {topStatus && (
+                      <div className="mb-4">
+                        <div className="text-xs font-medium text-gray-500 mb-2">TOP STATUS</div>
+                        <div className="flex items-center justify-between">
+                          <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(topStatus[0])}`}>
+                            {topStatus[0].replace('_', ' ')}
+                          </span>
+                          <span className="text-lg font-bold text-gray-900">{topStatus[1]}</span>
+                        </div>
+                      </div>
+                    )}
 
-                {/* Card Body */}
-                <div className="p-6">
-                  {/* Top Status */}
-                  {topStatus && (
+                    {/* Status Breakdown */}
                     <div className="mb-4">
-                      <div className="text-xs font-medium text-gray-500 mb-2">TOP STATUS</div>
-                      <div className="flex items-center justify-between">
-                        <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(topStatus[0])}`}>
-                          {topStatus[0].replace('_', ' ')}
-                        </span>
-                        <span className="text-lg font-bold text-gray-900">{topStatus[1]}</span>
+                      <div className="text-xs font-medium text-gray-500 mb-2">STATUS BREAKDOWN</div>
+                      <div className="space-y-1">
+                        {(Object.entries(item.statuses) as Array<[string, number]>)
+                          .slice(0, 3)
+                          .map(([status, count]) => (
+                            <div key={status} className="flex items-center justify-between text-sm">
+                              <span className="text-gray-600">{status.replace('_', ' ')}</span>
+                              <span className="font-semibold text-gray-900">{count}</span>
+                            </div>
+                          ))}
                       </div>
                     </div>
-                  )}
-
-                  {/* Status Breakdown */}
-                  <div className="mb-4">
-                    <div className="text-xs font-medium text-gray-500 mb-2">STATUS BREAKDOWN</div>
-                    <div className="space-y-1">
-                      {(Object.entries(item.statuses) as Array<[string, number]>)
-                        .slice(0, 3)
-                        .map(([status, count]) => (
-                          <div key={status} className="flex items-center justify-between text-sm">
-                            <span className="text-gray-600">{status.replace('_', ' ')}</span>
-                            <span className="font-semibold text-gray-900">{count}</span>
-                          </div>
-                        ))}
-                    </div>
-                  </div>
 
-                  {/* Additional Info for Cities */}
-                  {isCity && item.avg_priority > 0 && (
-                    <div className="pt-4 border-t border-gray-100">
-                      <div className="flex items-center justify-between">
-                        <span className="text-xs font-medium text-gray-500">AVG PRIORITY</span>
-                        <div className="flex items-center gap-1">
-                          {[...Array(5)].map((_, i) => (
-                            <span key={i} className={`text-lg ${i < Math.round(item.avg_priority) ? 'text-yellow-400' : 'text-gray-300'}`}>
-                              ⭐
-                            </span>
-                          ))}
+                    {/* Additional Info for Cities */}
+                    {isCity && item.avg_priority > 0 && (
+                      <div className="pt-4 border-t border-gray-100">
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium text-gray-500">AVG PRIORITY</span>
+                          <div className="flex items-center gap-1">
+                            {[...Array(5)].map((_, i) => (
+                              <span key={i} className={`text-lg ${i < Math.round(item.avg_priority) ? 'text-yellow-400' : 'text-gray-300'}`}>
+                                ⭐
+                              </span>
+                            ))}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Click Hint */}
-                  <div className="mt-4 pt-4 border-t border-gray-100">
-                    <div className="flex items-center justify-between text-sm text-indigo-600 font-medium group-hover:text-indigo-700">
-                      <span>View All Leads</span>
-                      <span className="transform group-hover:translate-x-1 transition-transform">→</span>
+                    {/* Click Hint */}
+                    <div className="mt-4 pt-4 border-t border-gray-100">
+                      {isCity && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            router.push(`/dashboard/route?${new URLSearchParams({ city: item.city, state: item.state })}`);
+                          }}
+                          className="mb-3 w-full px-4 py-2 rounded-lg text-sm font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          🚗 Plan visit route
+                        </button>
+                      )}
+                      <div className="flex items-center justify-between text-sm text-indigo-600 font-medium group-hover:text-indigo-700">
+                        <span>View All Leads</span>
+                        <span className="transform group-hover:translate-x-1 transition-transform">→</span>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
-
-        {/* No Results */}
-        {filteredData.length === 0 && (
-          <div className="text-center py-12">
-            <div className="text-6xl mb-4">🔍</div>
-            <h3 className="text-xl font-bold text-gray-900 mb-2">No Locations Found</h3>
-            <p className="text-gray-600">Try adjusting your search or filters</p>
+              );
+            })}
           </div>
-        )}
-      </div>
+
+          {/* No Results */}
+          {filteredData.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🔍</div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No Locations Found</h3>
+              <p className="text-gray-600">Try adjusting your search or filters</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,142 @@
+/**
+ * Duplicate Review Page
+ * Groups of likely duplicate leads, reviewed and merged one group at a time
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { leadsApi } from '@/lib/api';
+import { DuplicateMatchType } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { DUPLICATE_MATCH_LABELS, DuplicateGroupCard } from '@/components/leads/duplicate-group-card';
+
+const PAGE_SIZE = 10;
+
+export default function DuplicatesPage() {
+  const queryClient = useQueryClient();
+  const [matchType, setMatchType] = useState<DuplicateMatchType | 'all'>('all');
+  const [page, setPage] = useState(1);
+
+  // Merged groups stay on screen with their summary until the list is refreshed
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['duplicates', matchType, page],
+    queryFn: () =>
+      leadsApi.findDuplicates({
+        match_type: matchType === 'all' ? undefined : matchType,
+        page,
+        page_size: PAGE_SIZE,
+      }),
+    placeholderData: keepPreviousData,
+  });
+
+  const tabClass = (active: boolean) =>
+    `whitespace-nowrap py-3 px-1 border-b-2 text-sm font-medium ${
+      active
+        ? 'border-indigo-500 text-indigo-600'
+        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+    }`;
+
+  return (
+    <RouteGuard requireManager>
+      <div className="space-y-6">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Duplicate Review</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Choose which lead to keep and which values win, preview the result, then merge
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['duplicates'] })}
+            disabled={isFetching}
+            className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isFetching ? 'Refreshing...' : 'Refresh List'}
+          </button>
+        </div>
+
+        {/* Match type tabs */}
+        <div className="bg-white shadow rounded-lg px-4">
+          <nav className="-mb-px flex gap-6 overflow-x-auto border-b border-gray-200">
+            <button
+              type="button"
+              onClick={() => {
+                setMatchType('all');
+                setPage(1);
+              }}
+              className={tabClass(matchType === 'all')}
+            >
+              All Matches
+            </button>
+            {(Object.keys(DUPLICATE_MATCH_LABELS) as DuplicateMatchType[]).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => {
+                  setMatchType(type);
+                  setPage(1);
+                }}
+                className={tabClass(matchType === type)}
+              >
+                {DUPLICATE_MATCH_LABELS[type]}
+              </button>
+            ))}
+          </nav>
+          <p className="py-2 text-xs text-gray-500">
+            Phones are compared by digits across every phone and landline field; emails ignore case.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">Failed to load duplicates. Please try again.</p>
+          </div>
+        ) : !data?.items.length ? (
+          <div className="bg-white shadow rounded-lg px-6 py-12 text-center">
+            <h3 className="text-sm font-medium text-gray-900">No duplicates found</h3>
+            <p className="mt-1 text-sm text-gray-500">Every lead looks unique for this match type.</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              <strong>{data.total.toLocaleString()}</strong> duplicate group{data.total === 1 ? '' : 's'}
+            </p>
+            {data.items.map((group) => (
+              <DuplicateGroupCard key={group.key} group={group} />
+            ))}
+
+            {/* Pagination */}
+            {data.total > data.page_size && (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-700">
+                  Page {page} of {Math.ceil(data.total / data.page_size)}
+                </span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page * data.page_size >= data.total}
+                  className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
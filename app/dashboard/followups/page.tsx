@@ -0,0 +1,205 @@
+/**
+ * Follow-ups Page
+ * Overdue, due today and upcoming follow-ups, with quick done and snooze actions
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import {
+  FOLLOWUP_BUCKET_COLORS,
+  FOLLOWUP_BUCKET_LABELS,
+  FOLLOWUP_PRESETS,
+  FollowupBucket,
+  markContactedChanges,
+  startOfDay,
+} from '@/lib/followups';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { useCanManage } from '@/lib/store/auth';
+import { Lead, LeadListParams } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+
+const UPCOMING_DAYS = 14;
+const SECTION_PAGE_SIZE = 50;
+
+const SNOOZE_PRESETS = FOLLOWUP_PRESETS.filter((p) => ['Tomorrow', '+2 days', '+1 week'].includes(p.label));
+
+interface FollowupSectionProps {
+  bucket: FollowupBucket;
+  params: LeadListParams;
+  emptyMessage: string;
+}
+
+function FollowupSection({ bucket, params, emptyMessage }: FollowupSectionProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['leads', 'followups', bucket, params],
+    queryFn: () =>
+      leadsApi.listLeads({
+        ...params,
+        page_size: SECTION_PAGE_SIZE,
+        sort_by: 'next_followup_date',
+        sort_order: 'asc',
+      }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ lead, changes }: { lead: Lead; changes: Partial<Lead> }) =>
+      leadsApi.updateLead(lead.id, changes, 'followups'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to update follow-up')}`);
+    },
+  });
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-2">
+        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${FOLLOWUP_BUCKET_COLORS[bucket]}`}>
+          {FOLLOWUP_BUCKET_LABELS[bucket]}
+        </span>
+        {data && <span className="text-sm text-gray-500">{data.total.toLocaleString()} leads</span>}
+      </div>
+
+      {isLoading ? (
+        <div className="px-4 py-6 text-sm text-gray-500">Loading...</div>
+      ) : error ? (
+        <div className="px-4 py-6 text-sm text-red-600">Failed to load follow-ups.</div>
+      ) : !data?.items.length ? (
+        <div className="px-4 py-6 text-sm text-gray-500">{emptyMessage}</div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {data.items.map((lead) => (
+            <li key={lead.id} className="px-4 py-3 flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-[12rem]">
+                <Link href={`/dashboard/leads/${lead.id}`} className="text-sm font-medium text-gray-900 hover:text-indigo-600">
+                  {lead.name}
+                </Link>
+                <div className="text-xs text-gray-500">
+                  {lead.phone && (
+                    <a href={`tel:${lead.phone}`} className="hover:text-indigo-600">
+                      {lead.phone}
+                    </a>
+                  )}
+                  {lead.phone && lead.city && ' · '}
+                  {lead.city}
+                  {lead.assigned_to && ` · ${lead.assigned_to}`}
+                </div>
+              </div>
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[lead.status]}`}>
+                {STATUS_LABELS[lead.status]}
+              </span>
+              <span className="text-sm text-gray-700 w-44">
+                {lead.next_followup_date && new Date(lead.next_followup_date).toLocaleString()}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => updateMutation.mutate({ lead, changes: markContactedChanges(lead, true) })}
+                  disabled={updateMutation.isPending}
+                  title="Log a contact now and clear the follow-up"
+                  className="inline-flex items-center px-2.5 py-1 border border-green-300 text-xs font-medium rounded-md text-green-700 bg-white hover:bg-green-50 disabled:opacity-50"
+                >
+                  Done
+                </button>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const preset = SNOOZE_PRESETS.find((p) => p.label === e.target.value);
+                    if (preset) {
+                      updateMutation.mutate({
+                        lead,
+                        changes: { next_followup_date: preset.apply(new Date()).toISOString() },
+                      });
+                    }
+                  }}
+                  disabled={updateMutation.isPending}
+                  className="rounded-md border-gray-300 text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value="">Snooze...</option>
+                  {SNOOZE_PRESETS.map((preset) => (
+                    <option key={preset.label} value={preset.label}>
+                      {preset.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {data && data.total > data.items.length && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-100">
+          Showing the first {data.items.length} of {data.total.toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function FollowupsPage() {
+  const canManage = useCanManage();
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
+  // Bucket boundaries are fixed when the page opens and moved forward on refresh
+  const [now, setNow] = useState(() => new Date());
+
+  const endOfToday = new Date(startOfDay(now).getTime() + 24 * 60 * 60 * 1000);
+  const upcomingEnd = new Date(endOfToday.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+  const scopeParams: LeadListParams = scope === 'mine' ? { assigned_to_me: true } : {};
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{scope === 'mine' ? 'My Follow-ups' : 'Team Follow-ups'}</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Leads with a scheduled follow-up {scope === 'mine' && 'assigned to you'}
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center gap-3">
+            {canManage && (
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as 'mine' | 'all')}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="mine">Assigned to me</option>
+                <option value="all">Everyone</option>
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={() => setNow(new Date())}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        <FollowupSection
+          bucket="overdue"
+          params={{ ...scopeParams, followup_before: now.toISOString() }}
+          emptyMessage="Nothing overdue."
+        />
+        <FollowupSection
+          bucket="today"
+          params={{ ...scopeParams, followup_after: now.toISOString(), followup_before: endOfToday.toISOString() }}
+          emptyMessage="Nothing else due today."
+        />
+        <FollowupSection
+          bucket="upcoming"
+          params={{ ...scopeParams, followup_after: endOfToday.toISOString(), followup_before: upcomingEnd.toISOString() }}
+          emptyMessage={`No follow-ups in the next ${UPCOMING_DAYS} days.`}
+        />
+      </div>
+    </RouteGuard>
+  );
+}
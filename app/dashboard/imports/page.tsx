@@ -0,0 +1,146 @@
+/**
+ * Import History Page
+ * Past and running lead imports with their error reports
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { importJobsApi } from '@/lib/api';
+import { isImportJobFinished } from '@/lib/import-jobs';
+import { ImportJob } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { ImportJobProgress } from '@/components/imports/import-job-progress';
+
+const formatDuration = (job: ImportJob) => {
+  if (!job.started_at) return '-';
+  const end = job.finished_at ? new Date(job.finished_at) : new Date();
+  const seconds = Math.max(0, Math.round((end.getTime() - new Date(job.started_at).getTime()) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export default function ImportsPage() {
+  const [page, setPage] = useState(1);
+
+  // Keep polling while any job on the page is still running
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['import-jobs', 'list', page],
+    queryFn: () => importJobsApi.listJobs({ page, page_size: 20 }),
+    refetchInterval: (query) =>
+      query.state.data?.items.some((job) => !isImportJobFinished(job)) ? 3000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <RouteGuard requireApproval>
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      </RouteGuard>
+    );
+  }
+
+  if (error) {
+    return (
+      <RouteGuard requireApproval>
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">Failed to load import history. Please try again.</p>
+        </div>
+      </RouteGuard>
+    );
+  }
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import History</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Lead imports run in the background; failed rows can be downloaded as CSV
+          </p>
+        </div>
+
+        {/* Jobs Table */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    File
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/2">
+                    Progress
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Started
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Duration
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {!data?.items.length ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-12 text-center text-sm text-gray-500">
+                      No imports yet. Use Import on the Leads page to add leads from a spreadsheet.
+                    </td>
+                  </tr>
+                ) : (
+                  data.items.map((job) => (
+                    <tr key={job.id}>
+                      <td className="px-6 py-4 align-top">
+                        <div className="text-sm font-medium text-gray-900">{job.file_name}</div>
+                        {job.source_file && <div className="text-sm text-gray-500">{job.source_file}</div>}
+                        {job.created_by && <div className="text-xs text-gray-400">by {job.created_by}</div>}
+                      </td>
+                      <td className="px-6 py-4 align-top">
+                        <ImportJobProgress job={job} compact />
+                      </td>
+                      <td className="px-6 py-4 align-top whitespace-nowrap text-sm text-gray-500">
+                        {new Date(job.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 align-top whitespace-nowrap text-sm text-gray-500">
+                        {formatDuration(job)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.total > data.page_size && (
+            <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+              <p className="text-sm text-gray-700">
+                Showing{' '}
+                <span className="font-medium">{(page - 1) * data.page_size + 1}</span> to{' '}
+                <span className="font-medium">{Math.min(page * data.page_size, data.total)}</span> of{' '}
+                <span className="font-medium">{data.total}</span> imports
+              </p>
+              <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page * data.page_size >= data.total}
+                  className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </nav>
+            </div>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -9,6 +9,9 @@ import { useRouter, usePathname } from 'next/navigation';
 import { RouteGuard } from '@/components/auth/route-guard';
 import { useAuth, useIsAdmin, useCanManage } from '@/lib/store/auth';
 import Link from 'next/link';
+import { ImportJobsTracker } from '@/components/imports/import-jobs-tracker';
+import { Toaster } from '@/components/toasts/toaster';
+import { FollowupReminders } from '@/components/followups/followup-reminders';
 
 interface NavItem {
   name: string;
@@ -21,7 +24,16 @@ interface NavItem {
 const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: 'home' },
   { name: 'Leads', href: '/dashboard/leads', icon: 'users' },
+  { name: 'Pipeline', href: '/dashboard/pipeline', icon: 'view-boards' },
+  { name: 'Follow-ups', href: '/dashboard/followups', icon: 'bell' },
+  { name: 'Calendar', href: '/dashboard/calendar', icon: 'calendar' },
   { name: 'Cities', href: '/dashboard/cities', icon: 'map' },
+  { name: 'Visit Route', href: '/dashboard/route', icon: 'truck' },
+  { name: 'Import History', href: '/dashboard/imports', icon: 'upload' },
+  { name: 'Source Report', href: '/dashboard/reports', icon: 'chart', managerOnly: true },
+  { name: 'Duplicates', href: '/dashboard/duplicates', icon: 'duplicate', managerOnly: true },
+  { name: 'Assignment Rules', href: '/dashboard/assignment-rules', icon: 'switch', managerOnly: true },
+  { name: 'Trash', href: '/dashboard/trash', icon: 'trash' },
   { name: 'User Management', href: '/dashboard/users', icon: 'user-group', managerOnly: true },
   { name: 'Pending Approvals', href: '/dashboard/approvals', icon: 'clock', adminOnly: true },
 ];
@@ -60,6 +72,62 @@ function NavIcon({ icon, className }: { icon: string; className?: string }) {
         d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
       />
     ),
+    'view-boards': (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2"
+      />
+    ),
+    duplicate: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2"
+      />
+    ),
+    upload: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+      />
+    ),
+    bell: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+      />
+    ),
+    calendar: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+      />
+    ),
+    switch: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+      />
+    ),
+    trash: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+      />
+    ),
     map: (
       <path
         strokeLinecap="round"
@@ -68,6 +136,22 @@ function NavIcon({ icon, className }: { icon: string; className?: string }) {
         d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"
       />
     ),
+    chart: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+      />
+    ),
+    truck: (
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0"
+      />
+    ),
   };
 
   return (
@@ -146,7 +230,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
         )}
 
         {/* Desktop sidebar */}
-        <div className="hidden lg:fixed lg:inset-y-0 lg:flex lg:w-64 lg:flex-col">
+        <div className="hidden lg:fixed lg:inset-y-0 lg:flex lg:w-64 lg:flex-col print:!hidden">
           <div className="flex flex-col flex-1 min-h-0 bg-white border-r border-gray-200">
             <div className="flex items-center h-16 px-4 bg-indigo-600">
               <span className="text-xl font-semibold text-white">Leads System</span>
@@ -206,9 +290,9 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
         </div>
 
         {/* Main content */}
-        <div className="lg:pl-64 flex flex-col flex-1">
+        <div className="lg:pl-64 print:!pl-0 flex flex-col flex-1">
           {/* Top header */}
-          <div className="sticky top-0 z-10 flex h-16 bg-white border-b border-gray-200 lg:hidden">
+          <div className="sticky top-0 z-10 flex h-16 bg-white border-b border-gray-200 lg:hidden print:hidden">
             <button
               onClick={() => setSidebarOpen(true)}
               className="px-4 text-gray-500 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500"
@@ -228,6 +312,10 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
             </div>
           </main>
         </div>
+
+        <ImportJobsTracker />
+        <Toaster />
+        <FollowupReminders />
       </div>
     </RouteGuard>
   );
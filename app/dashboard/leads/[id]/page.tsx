@@ -4,16 +4,29 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { leadsApi } from '@/lib/api';
 import { useRouter, useParams } from 'next/navigation';
-import { Lead } from '@/lib/types';
+import { useCanManage } from '@/lib/store/auth';
+import { toDateTimeLocalValue } from '@/lib/followups';
+import { STATUS_LABELS } from '@/lib/lead-fields';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { Lead, LeadMergeResult } from '@/lib/types';
 import { TelegramChat } from '@/components/telegram/telegram-chat';
+import { MergeLeadModal } from '@/components/leads/merge-lead-modal';
+import { LeadNotes } from '@/components/notes/lead-notes';
+import { FollowupScheduler } from '@/components/followups/followup-scheduler';
+import { LeadActivityFeed } from '@/components/leads/lead-activity-feed';
+import { LeadHistoryPanel } from '@/components/leads/lead-history-panel';
+import { LeadAssignmentPanel } from '@/components/leads/lead-assignment-panel';
 
 export default function LeadDetailPage() {
   const router = useRouter();
   const params = useParams();
   const leadId = parseInt(params.id as string);
   const queryClient = useQueryClient();
+  const canManage = useCanManage();
+  const { offerStatusUndo } = useLeadUndo();
   const [isEditing, setIsEditing] = useState(false);
   const [editedLead, setEditedLead] = useState<Partial<Lead>>({});
+  const [showMergeModal, setShowMergeModal] = useState(false);
 
   // Fetch lead details
   const { data: lead, isLoading, error } = useQuery({
@@ -24,10 +37,16 @@ export default function LeadDetailPage() {
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: (data: Partial<Lead>) => leadsApi.updateLead(leadId, data),
-    onSuccess: () => {
+    mutationFn: ({ data }: { data: Partial<Lead>; previous: Lead }) => leadsApi.updateLead(leadId, data, 'detail_page'),
+    onSuccess: (_, { data, previous }) => {
       queryClient.invalidateQueries({ queryKey: ['lead', leadId] });
       queryClient.invalidateQueries({ queryKey: ['leads'] });
+      if (data.status && data.status !== previous.status) {
+        offerStatusUndo(
+          [{ lead_id: previous.id, previous_status: previous.status }],
+          `Moved "${previous.name}" to ${STATUS_LABELS[data.status]}`
+        );
+      }
       setIsEditing(false);
       setEditedLead({});
     },
@@ -44,13 +63,21 @@ export default function LeadDetailPage() {
   };
 
   const handleSave = () => {
-    updateMutation.mutate(editedLead);
+    if (lead) updateMutation.mutate({ data: editedLead, previous: lead });
   };
 
   const handleChange = (field: keyof Lead, value: any) => {
     setEditedLead(prev => ({ ...prev, [field]: value }));
   };
 
+  // This page's lead may have been merged away; continue on the one that was kept
+  const handleMerged = (result: LeadMergeResult) => {
+    setShowMergeModal(false);
+    if (result.keeper.id !== leadId) {
+      router.replace(`/dashboard/leads/${result.keeper.id}`);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -125,12 +152,22 @@ export default function LeadDetailPage() {
             </div>
             <div className="flex gap-3">
               {!isEditing ? (
-                <button
-                  onClick={handleEdit}
-                  className="px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition shadow-lg"
-                >
-                  ✏️ Edit
-                </button>
+                <>
+                  {canManage && (
+                    <button
+                      onClick={() => setShowMergeModal(true)}
+                      className="px-6 py-3 bg-white/10 text-white rounded-xl font-semibold hover:bg-white/20 transition"
+                    >
+                      🔗 Merge
+                    </button>
+                  )}
+                  <button
+                    onClick={handleEdit}
+                    className="px-6 py-3 bg-white text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50 transition shadow-lg"
+                  >
+                    ✏️ Edit
+                  </button>
+                </>
               ) : (
                 <>
                   <button
@@ -300,7 +337,7 @@ export default function LeadDetailPage() {
                   </p>
                 )}
               </div>
-              <InfoField label="Assigned To" value={currentData.assigned_to} field="assigned_to" />
+              <InfoField label="Assigned To" value={currentData.assigned_to} />
             </div>
           </div>
 
@@ -375,8 +412,8 @@ export default function LeadDetailPage() {
                 {isEditing ? (
                   <input
                     type="datetime-local"
-                    value={currentData.next_followup_date ? new Date(currentData.next_followup_date).toISOString().slice(0, 16) : ''}
-                    onChange={(e) => handleChange('next_followup_date', e.target.value ? new Date(e.target.value).toISOString() : undefined)}
+                    value={toDateTimeLocalValue(currentData.next_followup_date)}
+                    onChange={(e) => handleChange('next_followup_date', e.target.value ? new Date(e.target.value).toISOString() : null)}
                     className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   />
                 ) : (
@@ -389,6 +426,23 @@ export default function LeadDetailPage() {
           </div>
         </div>
 
+        {/* Follow-up and Assignment */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6 items-start">
+          <FollowupScheduler lead={lead} />
+          <LeadAssignmentPanel lead={lead} />
+        </div>
+
+        {/* Notes and Activity History */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 my-6 items-start">
+          <LeadNotes leadId={leadId} />
+          <LeadActivityFeed leadId={leadId} />
+        </div>
+
+        {/* Field Change History */}
+        <div className="mb-6">
+          <LeadHistoryPanel lead={lead} />
+        </div>
+
         {/* Telegram Chat Section */}
         <div className="bg-white shadow rounded-lg">
           <TelegramChat
@@ -399,6 +453,10 @@ export default function LeadDetailPage() {
           />
         </div>
       </div>
+
+      {showMergeModal && (
+        <MergeLeadModal lead={lead} onClose={() => setShowMergeModal(false)} onMerged={handleMerged} />
+      )}
     </div>
   );
 }
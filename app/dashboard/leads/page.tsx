@@ -5,12 +5,37 @@
 
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { leadsApi } from '@/lib/api';
-import { Lead, LeadStatus } from '@/lib/types';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { leadsApi, savedViewsApi, getApiErrorMessage } from '@/lib/api';
+import { Lead, LeadFilters, LeadSelection, LeadSortField, LeadStatus, SavedView } from '@/lib/types';
+import {
+  DEFAULT_LEAD_FILTERS,
+  PAGE_SIZE_OPTIONS,
+  buildLeadsQueryString,
+  hasLeadFilterParams,
+  isSameFilters,
+  parseLeadFilters,
+  parseLeadIds,
+  parsePage,
+  parsePageSize,
+  toLeadListParams,
+  withDefaultFilters,
+} from '@/lib/lead-filters';
+import { STATUS_COLORS, STATUS_LABELS, getLeadFieldLabel } from '@/lib/lead-fields';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { useUser, useCanManage } from '@/lib/store/auth';
+import { usePreferencesStore } from '@/lib/store/preferences';
 import { RouteGuard } from '@/components/auth/route-guard';
+import { DEFAULT_LEAD_COLUMNS, getLeadColumns } from '@/components/leads/lead-columns';
+import { ColumnChooser } from '@/components/leads/column-chooser';
+import { SavedViewsBar } from '@/components/leads/saved-views-bar';
+import { LeadFiltersForm } from '@/components/leads/lead-filters-form';
+import { BulkActionsBar } from '@/components/leads/bulk-actions-bar';
+import { ExportLeadsModal } from '@/components/leads/export-leads-modal';
+import { ImportLeadsModal } from '@/components/leads/import-leads-modal';
 
 // Lead creation form data type
 interface LeadFormData {
@@ -27,65 +52,82 @@ interface LeadFormData {
   estimated_value: string;
 }
 
-const STATUS_COLORS: Record<LeadStatus, string> = {
-  new: 'bg-blue-100 text-blue-800',
-  contacted: 'bg-yellow-100 text-yellow-800',
-  qualified: 'bg-purple-100 text-purple-800',
-  proposal: 'bg-indigo-100 text-indigo-800',
-  negotiation: 'bg-orange-100 text-orange-800',
-  won: 'bg-green-100 text-green-800',
-  lost: 'bg-red-100 text-red-800',
-};
-
 export default function LeadsPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
-  const [page, setPage] = useState(1);
-  const [search, setSearch] = useState('');
-  const [statusFilter, setStatusFilter] = useState<LeadStatus | 'ALL'>('ALL');
-  const [sourceFilter, setSourceFilter] = useState('');
-  const [cityFilter, setCityFilter] = useState('');
-  const [stateFilter, setStateFilter] = useState('');
-
-  // Individual field search filters
-  const [nameFilter, setNameFilter] = useState('');
-  const [phoneFilter, setPhoneFilter] = useState('');
-  const [emailFilter, setEmailFilter] = useState('');
-
-  // Quick filter toggles
-  const [filterHasPhone, setFilterHasPhone] = useState(false);
-  const [filterHasEmail, setFilterHasEmail] = useState(false);
-  const [filterStatusWon, setFilterStatusWon] = useState(false);
-
-  // Read filter parameters from URL on component mount
-  useEffect(() => {
-    const searchQuery = searchParams.get('search');
-    const cityQuery = searchParams.get('city');
-    const stateQuery = searchParams.get('state');
-
-    if (searchQuery) {
-      setSearch(searchQuery);
-    }
-    if (cityQuery) {
-      setCityFilter(cityQuery);
+  // All list state lives in the query string, so refresh, back/forward and
+  // shared links reproduce exactly the same list
+  const filters = useMemo(() => parseLeadFilters(searchParams), [searchParams]);
+  const page = parsePage(searchParams.get('page'));
+  const pageSize = parsePageSize(searchParams.get('page_size'));
+  const activeViewId = Number(searchParams.get('view')) || null;
+
+  const navigate = (
+    next: { filters?: LeadFilters; page?: number; pageSize?: number; viewId?: number | null },
+    replace = false
+  ) => {
+    const query = buildLeadsQueryString(next.filters ?? filters, {
+      page: next.page ?? page,
+      pageSize: next.pageSize ?? pageSize,
+      viewId: next.viewId !== undefined ? next.viewId : activeViewId,
+    });
+    const url = query ? `/dashboard/leads?${query}` : '/dashboard/leads';
+    if (replace) {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
     }
-    if (stateQuery) {
-      setStateFilter(stateQuery);
+  };
+
+  const setPage = (nextPage: number) => navigate({ page: nextPage });
+
+  // Any filter change returns to the first page
+  const updateFilters = (changes: Partial<LeadFilters>, options?: { replace?: boolean }) => {
+    navigate({ filters: { ...filters, ...changes }, page: 1 }, options?.replace);
+  };
+
+  // Column layout is remembered per user
+  const user = useUser();
+  const canManage = useCanManage();
+  const savedColumns = usePreferencesStore((state) => (user ? state.leadColumnsByUser[user.id] : undefined));
+  const setLeadColumns = usePreferencesStore((state) => state.setLeadColumns);
+  const resetLeadColumns = usePreferencesStore((state) => state.resetLeadColumns);
+  const visibleColumns = getLeadColumns(savedColumns || DEFAULT_LEAD_COLUMNS);
+
+  const { data: savedViews } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: () => savedViewsApi.listViews(),
+  });
+
+  // A bare ?view=<id> link is expanded once into the view's filters
+  const expandedViewRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!activeViewId || !savedViews || expandedViewRef.current === activeViewId) return;
+    expandedViewRef.current = activeViewId;
+    if (hasLeadFilterParams(searchParams)) return;
+
+    const view = savedViews.find((v) => v.id === activeViewId);
+    if (view) {
+      const query = buildLeadsQueryString(withDefaultFilters(view.filters), { pageSize, viewId: view.id });
+      router.replace(`/dashboard/leads?${query}`, { scroll: false });
     }
-  }, [searchParams]);
+  }, [activeViewId, savedViews, searchParams, pageSize, router]);
+
+  const handleSelectView = (view: SavedView | null) => {
+    if (view) expandedViewRef.current = view.id;
+    navigate({
+      filters: view ? withDefaultFilters(view.filters) : DEFAULT_LEAD_FILTERS,
+      page: 1,
+      viewId: view ? view.id : null,
+    });
+  };
+
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [importResult, setImportResult] = useState<{
-    success: boolean;
-    created: number;
-    total_rows: number;
-    errors?: Array<{ row: number; error: string }>;
-    message: string;
-  } | null>(null);
   const [formData, setFormData] = useState<LeadFormData>({
     name: '',
     email: '',
@@ -113,85 +155,78 @@ export default function LeadsPage() {
     estimated_value: '',
   });
   const queryClient = useQueryClient();
+  const { offerDeleteUndo, offerStatusUndo } = useLeadUndo();
+
+  // Quick filters are sent to the backend so results and counts cover every page
+  const listParams = toLeadListParams(filters);
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ['leads', page, search, statusFilter, sourceFilter, cityFilter, stateFilter, nameFilter, phoneFilter, emailFilter],
-    queryFn: () =>
-      leadsApi.listLeads({
-        page,
-        page_size: 20,
-        search: search || undefined,
-        status: statusFilter !== 'ALL' ? statusFilter : undefined,
-        source: sourceFilter || undefined,
-        city: cityFilter || undefined,
-        state: stateFilter || undefined,
-        name: nameFilter || undefined,
-        phone: phoneFilter || undefined,
-        email: emailFilter || undefined,
-      }),
+    queryKey: ['leads', page, pageSize, listParams],
+    queryFn: () => leadsApi.listLeads({ ...listParams, page, page_size: pageSize }),
+    placeholderData: keepPreviousData,
   });
 
-  // Apply client-side quick filters with AND logic
-  const filteredLeads = useMemo(() => {
-    if (!data?.items) return [];
-
-    return data.items.filter((lead: Lead) => {
-      // Check if lead has phone (any phone field)
-      const hasPhone = !!(
-        lead.phone ||
-        lead.phone_2 ||
-        lead.phone_3 ||
-        lead.phone_4 ||
-        lead.landline_1 ||
-        lead.landline_2 ||
-        lead.landline_3 ||
-        lead.landline_4
-      );
-
-      // Check if lead has email
-      const hasEmail = !!(lead.email || lead.email_2);
-
-      // Check if lead status is WON
-      const isWon = lead.status === LeadStatus.WON;
-
-      // Apply AND logic: all enabled filters must match
-      if (filterHasPhone && !hasPhone) return false;
-      if (filterHasEmail && !hasEmail) return false;
-      if (filterStatusWon && !isWon) return false;
-
-      return true;
+  // Totals for the quick filter buttons and stats cards
+  const { data: counts } = useQuery({
+    queryKey: ['leads', 'counts', listParams],
+    queryFn: () => leadsApi.getLeadCounts(listParams),
+  });
+
+  // Selection is tied to the filters it was made under and resets when they change
+  const selectionKey = JSON.stringify(listParams);
+  const [selectionState, setSelectionState] = useState<{
+    key: string;
+    leads: Record<number, Lead>;
+    allMatching: boolean;
+  }>({ key: selectionKey, leads: {}, allMatching: false });
+  const activeSelection = selectionState.key === selectionKey ? selectionState : null;
+  const selectedLeads = Object.values(activeSelection?.leads || {});
+  const isAllMatching = !!activeSelection?.allMatching;
+  const selectedCount = isAllMatching ? data?.total || 0 : selectedLeads.length;
+  const bulkSelection: LeadSelection = isAllMatching
+    ? { filters: listParams }
+    : { lead_ids: selectedLeads.map((lead) => lead.id) };
+
+  const pageLeads = data?.items || [];
+  const isPageSelected =
+    pageLeads.length > 0 && (isAllMatching || pageLeads.every((lead) => activeSelection?.leads[lead.id]));
+  const isPagePartlySelected = !isPageSelected && pageLeads.some((lead) => activeSelection?.leads[lead.id]);
+
+  const clearSelection = () => setSelectionState({ key: selectionKey, leads: {}, allMatching: false });
+
+  const toggleLeadSelection = (lead: Lead) => {
+    // Unchecking a row while all matching leads are selected keeps the rest of this page
+    const leads: Record<number, Lead> = isAllMatching
+      ? Object.fromEntries(pageLeads.map((l) => [l.id, l]))
+      : { ...activeSelection?.leads };
+    if (leads[lead.id]) {
+      delete leads[lead.id];
+    } else {
+      leads[lead.id] = lead;
+    }
+    setSelectionState({ key: selectionKey, leads, allMatching: false });
+  };
+
+  const togglePageSelection = () => {
+    if (isPageSelected) {
+      clearSelection();
+      return;
+    }
+    const leads = { ...activeSelection?.leads };
+    pageLeads.forEach((lead) => {
+      leads[lead.id] = lead;
     });
-  }, [data?.items, filterHasPhone, filterHasEmail, filterStatusWon]);
-
-  // Calculate individual filter counts for display
-  const countsWithPhone = useMemo(() => {
-    if (!data?.items) return 0;
-    return data.items.filter((lead: Lead) => !!(
-      lead.phone ||
-      lead.phone_2 ||
-      lead.phone_3 ||
-      lead.phone_4 ||
-      lead.landline_1 ||
-      lead.landline_2 ||
-      lead.landline_3 ||
-      lead.landline_4
-    )).length;
-  }, [data?.items]);
-
-  const countsWithEmail = useMemo(() => {
-    if (!data?.items) return 0;
-    return data.items.filter((lead: Lead) => !!(lead.email || lead.email_2)).length;
-  }, [data?.items]);
-
-  const countsWithWonStatus = useMemo(() => {
-    if (!data?.items) return 0;
-    return data.items.filter((lead: Lead) => lead.status === LeadStatus.WON).length;
-  }, [data?.items]);
+    setSelectionState({ key: selectionKey, leads, allMatching: false });
+  };
 
   const deleteMutation = useMutation({
-    mutationFn: (leadId: number) => leadsApi.deleteLead(leadId),
-    onSuccess: () => {
+    mutationFn: ({ leadId }: { leadId: number; leadName: string }) => leadsApi.deleteLead(leadId),
+    onSuccess: (_, { leadId, leadName }) => {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
+      offerDeleteUndo([leadId], `Moved "${leadName}" to trash`);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete lead')}`);
     },
   });
 
@@ -217,77 +252,51 @@ export default function LeadsPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ leadId, data }: { leadId: number; data: Partial<Lead> }) =>
-      leadsApi.updateLead(leadId, data),
-    onSuccess: () => {
+    mutationFn: ({ lead, data }: { lead: Lead; data: Partial<Lead> }) =>
+      leadsApi.updateLead(lead.id, data, 'leads_table'),
+    onSuccess: (_, { lead, data }) => {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
+      if (data.status && data.status !== lead.status) {
+        offerStatusUndo(
+          [{ lead_id: lead.id, previous_status: lead.status }],
+          `Moved "${lead.name}" to ${STATUS_LABELS[data.status]}`
+        );
+      }
       setIsEditModalOpen(false);
       setSelectedLead(null);
     },
   });
 
-  const importMutation = useMutation({
-    mutationFn: (file: File) => leadsApi.importLeads(file),
-    onSuccess: (result) => {
-      queryClient.invalidateQueries({ queryKey: ['leads'] });
-      setImportResult(result);
-      setSelectedFile(null);
-    },
-    onError: (error: any) => {
-      let errorMessage = 'Failed to import leads';
-
-      // Check if it's a timeout error
-      if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
-        errorMessage = 'Import took too long and timed out. However, your leads may have been imported successfully. Please check your leads list and try a smaller file if needed.';
-      } else if (error.response?.status === 499) {
-        errorMessage = 'Connection was closed while processing. Your leads may have been imported successfully. Please check your leads list.';
-      } else if (error.response?.data?.detail) {
-        errorMessage = error.response.data.detail;
-      }
-
-      setImportResult({
-        success: false,
-        created: 0,
-        total_rows: 0,
-        message: errorMessage,
-      });
-    },
-  });
-
-  const removeDuplicatesMutation = useMutation({
-    mutationFn: () => leadsApi.removeDuplicates(),
-    onSuccess: (result) => {
-      queryClient.invalidateQueries({ queryKey: ['leads'] });
-      alert(`Success! Removed ${result.statistics.duplicates_removed} duplicate leads.\n\nTotal leads before: ${result.statistics.total_leads_before}\nUnique combinations: ${result.statistics.unique_combinations}\nDuplicates removed: ${result.statistics.duplicates_removed}\nRemaining leads: ${result.statistics.remaining_leads}`);
-    },
-    onError: (error: any) => {
-      const message = error.response?.data?.detail || 'Failed to remove duplicates';
-      alert(`Error: ${message}`);
-    },
-  });
-
   const bulkDeleteMutation = useMutation({
     mutationFn: ({ confirmation, hardDelete }: { confirmation: string; hardDelete: boolean }) =>
       leadsApi.bulkDelete(confirmation, hardDelete),
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
-      alert(`Success! ${result.statistics.delete_type === 'hard' ? 'Permanently deleted' : 'Soft deleted'} ${result.statistics.deleted_count} leads.`);
+      const { deleted_count, delete_type, deleted_ids } = result.statistics;
+      if (delete_type === 'hard') {
+        alert(`Permanently deleted ${deleted_count} leads.`);
+      } else if (deleted_ids) {
+        offerDeleteUndo(deleted_ids, `Moved ${deleted_count.toLocaleString()} leads to trash`);
+      } else {
+        alert(`Moved ${deleted_count} leads to trash. Restore them from Trash if needed.`);
+      }
     },
-    onError: (error: any) => {
-      const message = error.response?.data?.detail || 'Failed to delete leads';
-      alert(`Error: ${message}`);
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete leads')}`);
     },
   });
 
-  const handleDelete = async (leadId: number, leadName: string) => {
-    if (confirm(`Delete lead "${leadName}"? This action cannot be undone.`)) {
-      await deleteMutation.mutateAsync(leadId);
-    }
+  // No confirmation: the toast offers Undo instead
+  const handleDelete = (leadId: number, leadName: string) => {
+    deleteMutation.mutate({ leadId, leadName });
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    setPage(1);
+  const handleSort = (field: LeadSortField) => {
+    if (filters.sort_by === field) {
+      updateFilters({ sort_order: filters.sort_order === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateFilters({ sort_by: field, sort_order: 'desc' });
+    }
   };
 
   const handleCreateSubmit = async (e: React.FormEvent) => {
@@ -353,27 +362,7 @@ export default function LeadsPage() {
       estimated_value: editFormData.estimated_value ? parseFloat(editFormData.estimated_value) : undefined,
     };
 
-    await updateMutation.mutateAsync({ leadId: selectedLead.id, data: leadData });
-  };
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      setImportResult(null);
-    }
-  };
-
-  const handleImportSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedFile) return;
-    await importMutation.mutateAsync(selectedFile);
-  };
-
-  const handleImportClose = () => {
-    setIsImportModalOpen(false);
-    setSelectedFile(null);
-    setImportResult(null);
+    await updateMutation.mutateAsync({ lead: selectedLead, data: leadData });
   };
 
   if (isLoading) {
@@ -408,6 +397,15 @@ export default function LeadsPage() {
             </p>
           </div>
           <div className="mt-4 sm:mt-0 flex gap-3">
+            <Link
+              href={`/dashboard/pipeline?${buildLeadsQueryString(filters)}`}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+              </svg>
+              Board View
+            </Link>
             <button
               onClick={() => setIsImportModalOpen(true)}
               className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -418,31 +416,26 @@ export default function LeadsPage() {
               Import Excel
             </button>
             <button
-              onClick={() => {
-                if (confirm('Remove all duplicate leads? This will keep the most recent version of each duplicate.')) {
-                  removeDuplicatesMutation.mutate();
-                }
-              }}
-              disabled={removeDuplicatesMutation.isPending}
-              className="inline-flex items-center px-4 py-2 border border-orange-300 shadow-sm text-sm font-medium rounded-md text-orange-700 bg-white hover:bg-orange-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => setIsExportModalOpen(true)}
+              disabled={!data?.total}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {removeDuplicatesMutation.isPending ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-orange-700" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Removing...
-                </>
-              ) : (
-                <>
-                  <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                  </svg>
-                  Remove Duplicates
-                </>
-              )}
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Export
             </button>
+            {canManage && (
+              <Link
+                href="/dashboard/duplicates"
+                className="inline-flex items-center px-4 py-2 border border-orange-300 shadow-sm text-sm font-medium rounded-md text-orange-700 bg-white hover:bg-orange-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+                Review Duplicates
+              </Link>
+            )}
             <button
               onClick={() => {
                 const confirmation = prompt(
@@ -489,133 +482,27 @@ export default function LeadsPage() {
           </div>
         </div>
 
-        {/* Filters */}
-        <div className="bg-white shadow rounded-lg p-4">
-          <form onSubmit={handleSearch} className="grid grid-cols-1 gap-4 sm:grid-cols-4">
-            <div className="sm:col-span-2">
-              <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">
-                Search
-              </label>
-              <input
-                type="text"
-                id="search"
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                placeholder="Search by name, email, phone, or company..."
-                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              />
-            </div>
-            <div>
-              <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
-                Status
-              </label>
-              <select
-                id="status"
-                value={statusFilter}
-                onChange={(e) => {
-                  setStatusFilter(e.target.value as LeadStatus | 'ALL');
-                  setPage(1);
-                }}
-                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              >
-                <option value="ALL">All Statuses</option>
-                <option value="NEW">New</option>
-                <option value="CONTACTED">Contacted</option>
-                <option value="QUALIFIED">Qualified</option>
-                <option value="PROPOSAL">Proposal</option>
-                <option value="NEGOTIATION">Negotiation</option>
-                <option value="WON">Won</option>
-                <option value="LOST">Lost</option>
-                <option value="NURTURE">Nurture</option>
-              </select>
-            </div>
-            <div>
-              <label htmlFor="source" className="block text-sm font-medium text-gray-700 mb-1">
-                Source
-              </label>
-              <input
-                type="text"
-                id="source"
-                value={sourceFilter}
-                onChange={(e) => {
-                  setSourceFilter(e.target.value);
-                  setPage(1);
-                }}
-                placeholder="Filter by source..."
-                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              />
-            </div>
+        {/* Saved Views */}
+        <SavedViewsBar activeViewId={activeViewId} filters={filters} onSelectView={handleSelectView} />
 
-            {/* Individual Field Search Filters */}
-            <div className="sm:col-span-4 pt-4 border-t border-gray-200">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">🔍 Individual Field Search</h3>
-              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
-                <div>
-                  <label htmlFor="nameFilter" className="block text-sm font-medium text-gray-700 mb-1">
-                    Search by Name
-                  </label>
-                  <input
-                    type="text"
-                    id="nameFilter"
-                    value={nameFilter}
-                    onChange={(e) => {
-                      setNameFilter(e.target.value);
-                      setPage(1);
-                    }}
-                    placeholder="Filter by name only..."
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="phoneFilter" className="block text-sm font-medium text-gray-700 mb-1">
-                    Search by Phone
-                  </label>
-                  <input
-                    type="text"
-                    id="phoneFilter"
-                    value={phoneFilter}
-                    onChange={(e) => {
-                      setPhoneFilter(e.target.value);
-                      setPage(1);
-                    }}
-                    placeholder="Filter by phone only..."
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="emailFilter" className="block text-sm font-medium text-gray-700 mb-1">
-                    Search by Email
-                  </label>
-                  <input
-                    type="text"
-                    id="emailFilter"
-                    value={emailFilter}
-                    onChange={(e) => {
-                      setEmailFilter(e.target.value);
-                      setPage(1);
-                    }}
-                    placeholder="Filter by email only..."
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                  />
-                </div>
-              </div>
-              <div className="mt-3 flex justify-end">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setNameFilter('');
-                    setPhoneFilter('');
-                    setEmailFilter('');
-                    setPage(1);
-                  }}
-                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                >
-                  Clear Individual Filters
-                </button>
-              </div>
-            </div>
-          </form>
-        </div>
+        {/* Map selection */}
+        {filters.ids && (
+          <div className="flex items-center justify-between bg-indigo-50 border border-indigo-200 rounded-lg px-4 py-3 text-sm text-indigo-800">
+            <span>
+              📍 Showing the <strong>{parseLeadIds(filters.ids).length}</strong> leads selected on the map
+            </span>
+            <button
+              type="button"
+              onClick={() => updateFilters({ ids: '' })}
+              className="text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <LeadFiltersForm key={activeViewId ?? 'all'} filters={filters} onChange={updateFilters} />
 
         {/* Quick Filters */}
         <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-lg p-4 border-2 border-indigo-200">
@@ -623,13 +510,44 @@ export default function LeadsPage() {
             <h3 className="text-sm font-semibold text-gray-700">⚡ Quick Filters</h3>
             <p className="text-xs text-gray-500">Toggle filters to refine your results (AND logic)</p>
           </div>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {/* My Leads Filter */}
+            <button
+              type="button"
+              onClick={() => updateFilters({ mine: !filters.mine })}
+              className={`p-4 rounded-lg border-2 transition-all duration-200 ${
+                filters.mine
+                  ? 'bg-gradient-to-r from-amber-500 to-orange-500 border-amber-600 text-white shadow-lg transform scale-105'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl">👤</span>
+                  <div className="text-left">
+                    <div className="font-semibold">My Leads</div>
+                    <div className="text-xs opacity-80">
+                      {filters.mine ? 'Active' : 'Click to activate'}
+                    </div>
+                    <div className={`text-xs font-bold mt-1 ${filters.mine ? 'text-amber-100' : 'text-amber-600'}`}>
+                      Assigned to you
+                    </div>
+                  </div>
+                </div>
+                <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                  filters.mine ? 'border-white bg-white' : 'border-gray-400'
+                }`}>
+                  {filters.mine && <span className="text-amber-600">✓</span>}
+                </div>
+              </div>
+            </button>
+
             {/* Has Phone Filter */}
             <button
               type="button"
-              onClick={() => setFilterHasPhone(!filterHasPhone)}
+              onClick={() => updateFilters({ has_phone: !filters.has_phone })}
               className={`p-4 rounded-lg border-2 transition-all duration-200 ${
-                filterHasPhone
+                filters.has_phone
                   ? 'bg-gradient-to-r from-blue-600 to-indigo-600 border-blue-700 text-white shadow-lg transform scale-105'
                   : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
               }`}
@@ -640,17 +558,17 @@ export default function LeadsPage() {
                   <div className="text-left">
                     <div className="font-semibold">Has Phone</div>
                     <div className="text-xs opacity-80">
-                      {filterHasPhone ? 'Active' : 'Click to activate'}
+                      {filters.has_phone ? 'Active' : 'Click to activate'}
                     </div>
-                    <div className={`text-xs font-bold mt-1 ${filterHasPhone ? 'text-blue-100' : 'text-blue-600'}`}>
-                      {countsWithPhone} leads
+                    <div className={`text-xs font-bold mt-1 ${filters.has_phone ? 'text-blue-100' : 'text-blue-600'}`}>
+                      {counts?.has_phone ?? '-'} leads
                     </div>
                   </div>
                 </div>
                 <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                  filterHasPhone ? 'border-white bg-white' : 'border-gray-400'
+                  filters.has_phone ? 'border-white bg-white' : 'border-gray-400'
                 }`}>
-                  {filterHasPhone && <span className="text-indigo-600">✓</span>}
+                  {filters.has_phone && <span className="text-indigo-600">✓</span>}
                 </div>
               </div>
             </button>
@@ -658,9 +576,9 @@ export default function LeadsPage() {
             {/* Has Email Filter */}
             <button
               type="button"
-              onClick={() => setFilterHasEmail(!filterHasEmail)}
+              onClick={() => updateFilters({ has_email: !filters.has_email })}
               className={`p-4 rounded-lg border-2 transition-all duration-200 ${
-                filterHasEmail
+                filters.has_email
                   ? 'bg-gradient-to-r from-purple-600 to-pink-600 border-purple-700 text-white shadow-lg transform scale-105'
                   : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
               }`}
@@ -671,17 +589,17 @@ export default function LeadsPage() {
                   <div className="text-left">
                     <div className="font-semibold">Has Email</div>
                     <div className="text-xs opacity-80">
-                      {filterHasEmail ? 'Active' : 'Click to activate'}
+                      {filters.has_email ? 'Active' : 'Click to activate'}
                     </div>
-                    <div className={`text-xs font-bold mt-1 ${filterHasEmail ? 'text-purple-100' : 'text-purple-600'}`}>
-                      {countsWithEmail} leads
+                    <div className={`text-xs font-bold mt-1 ${filters.has_email ? 'text-purple-100' : 'text-purple-600'}`}>
+                      {counts?.has_email ?? '-'} leads
                     </div>
                   </div>
                 </div>
                 <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                  filterHasEmail ? 'border-white bg-white' : 'border-gray-400'
+                  filters.has_email ? 'border-white bg-white' : 'border-gray-400'
                 }`}>
-                  {filterHasEmail && <span className="text-purple-600">✓</span>}
+                  {filters.has_email && <span className="text-purple-600">✓</span>}
                 </div>
               </div>
             </button>
@@ -689,9 +607,9 @@ export default function LeadsPage() {
             {/* Status WON Filter */}
             <button
               type="button"
-              onClick={() => setFilterStatusWon(!filterStatusWon)}
+              onClick={() => updateFilters({ won: !filters.won })}
               className={`p-4 rounded-lg border-2 transition-all duration-200 ${
-                filterStatusWon
+                filters.won
                   ? 'bg-gradient-to-r from-green-600 to-emerald-600 border-green-700 text-white shadow-lg transform scale-105'
                   : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
               }`}
@@ -702,17 +620,17 @@ export default function LeadsPage() {
                   <div className="text-left">
                     <div className="font-semibold">Status: WON</div>
                     <div className="text-xs opacity-80">
-                      {filterStatusWon ? 'Active' : 'Click to activate'}
+                      {filters.won ? 'Active' : 'Click to activate'}
                     </div>
-                    <div className={`text-xs font-bold mt-1 ${filterStatusWon ? 'text-green-100' : 'text-green-600'}`}>
-                      {countsWithWonStatus} leads
+                    <div className={`text-xs font-bold mt-1 ${filters.won ? 'text-green-100' : 'text-green-600'}`}>
+                      {counts?.by_status[LeadStatus.WON] ?? '-'} leads
                     </div>
                   </div>
                 </div>
                 <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                  filterStatusWon ? 'border-white bg-white' : 'border-gray-400'
+                  filters.won ? 'border-white bg-white' : 'border-gray-400'
                 }`}>
-                  {filterStatusWon && <span className="text-green-600">✓</span>}
+                  {filters.won && <span className="text-green-600">✓</span>}
                 </div>
               </div>
             </button>
@@ -722,23 +640,19 @@ export default function LeadsPage() {
           <div className="mt-3 pt-3 border-t border-indigo-200">
             <div className="flex items-center justify-between text-sm">
               <div className="space-y-1">
-                {(filterHasPhone || filterHasEmail || filterStatusWon) && (
+                {(filters.mine || filters.has_phone || filters.has_email || filters.won) && (
                   <div className="text-gray-700">
-                    <strong>{[filterHasPhone, filterHasEmail, filterStatusWon].filter(Boolean).length}</strong> quick filter{[filterHasPhone, filterHasEmail, filterStatusWon].filter(Boolean).length > 1 ? 's' : ''} active
+                    <strong>{[filters.mine, filters.has_phone, filters.has_email, filters.won].filter(Boolean).length}</strong> quick filter{[filters.mine, filters.has_phone, filters.has_email, filters.won].filter(Boolean).length > 1 ? 's' : ''} active
                   </div>
                 )}
                 <div className="text-gray-600 font-medium">
-                  Showing <strong className="text-indigo-600">{filteredLeads.length}</strong> of <strong>{data?.items.length || 0}</strong> total leads
+                  Showing <strong className="text-indigo-600">{data?.total ?? 0}</strong> matching leads
                 </div>
               </div>
-              {(filterHasPhone || filterHasEmail || filterStatusWon) && (
+              {(filters.mine || filters.has_phone || filters.has_email || filters.won) && (
                 <button
                   type="button"
-                  onClick={() => {
-                    setFilterHasPhone(false);
-                    setFilterHasEmail(false);
-                    setFilterStatusWon(false);
-                  }}
+                  onClick={() => updateFilters({ mine: false, has_phone: false, has_email: false, won: false })}
                   className="text-indigo-600 hover:text-indigo-800 font-medium"
                 >
                   Clear all
@@ -780,7 +694,7 @@ export default function LeadsPage() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">New</dt>
                       <dd className="text-lg font-semibold text-gray-900">
-                        {filteredLeads.filter((l: Lead) => l.status === LeadStatus.NEW).length}
+                        {counts?.by_status[LeadStatus.NEW] ?? '-'}
                       </dd>
                     </dl>
                   </div>
@@ -799,7 +713,7 @@ export default function LeadsPage() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">Won</dt>
                       <dd className="text-lg font-semibold text-gray-900">
-                        {filteredLeads.filter((l: Lead) => l.status === LeadStatus.WON).length}
+                        {counts?.by_status[LeadStatus.WON] ?? '-'}
                       </dd>
                     </dl>
                   </div>
@@ -818,9 +732,10 @@ export default function LeadsPage() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">In Progress</dt>
                       <dd className="text-lg font-semibold text-gray-900">
-                        {filteredLeads.filter((l: Lead) =>
-                          ['contacted', 'qualified', 'proposal', 'negotiation'].includes(l.status)
-                        ).length}
+                        {counts
+                          ? [LeadStatus.CONTACTED, LeadStatus.QUALIFIED, LeadStatus.PROPOSAL, LeadStatus.NEGOTIATION]
+                              .reduce((sum, status) => sum + (counts.by_status[status] || 0), 0)
+                          : '-'}
                       </dd>
                     </dl>
                   </div>
@@ -830,46 +745,109 @@ export default function LeadsPage() {
           </div>
         )}
 
+        {/* Table Toolbar */}
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Sorted by <strong>{getLeadFieldLabel(filters.sort_by)}</strong>{' '}
+            ({filters.sort_order === 'asc' ? 'ascending' : 'descending'})
+          </p>
+          <ColumnChooser
+            columns={visibleColumns.map((c) => c.id)}
+            onChange={(columns) => user && setLeadColumns(user.id, columns)}
+            onReset={() => user && resetLeadColumns(user.id)}
+          />
+        </div>
+
+        <BulkActionsBar
+          selection={bulkSelection}
+          selectedCount={selectedCount}
+          selectedLeads={selectedLeads}
+          onClear={clearSelection}
+        />
+
+        {/* Select every lead matching the filters, not just this page */}
+        {isPageSelected && data && data.total > pageLeads.length && (
+          <div className="text-center text-sm text-gray-700">
+            {isAllMatching ? (
+              <>
+                All <strong>{data.total.toLocaleString()}</strong> leads matching the current filters are selected.{' '}
+                <button type="button" onClick={clearSelection} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                  Clear selection
+                </button>
+              </>
+            ) : (
+              <>
+                All <strong>{pageLeads.length}</strong> leads on this page are selected.{' '}
+                <button
+                  type="button"
+                  onClick={() => setSelectionState({ key: selectionKey, leads: {}, allMatching: true })}
+                  className="text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  Select all {data.total.toLocaleString()} matching leads
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Leads Table */}
         <div className="bg-white shadow rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Contact
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    City
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Source
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Value
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Created
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={isPageSelected}
+                      ref={(el) => {
+                        if (el) el.indeterminate = isPagePartlySelected;
+                      }}
+                      onChange={togglePageSelection}
+                      disabled={pageLeads.length === 0}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      aria-label="Select all leads on this page"
+                    />
                   </th>
+                  {visibleColumns.map((column) => (
+                    <th
+                      key={column.id}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {column.sortField ? (
+                        <button
+                          type="button"
+                          onClick={() => handleSort(column.sortField!)}
+                          className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 ${
+                            filters.sort_by === column.sortField ? 'text-indigo-600' : ''
+                          }`}
+                        >
+                          {column.label}
+                          <span className="text-xs">
+                            {filters.sort_by === column.sortField ? (filters.sort_order === 'asc' ? '▲' : '▼') : '↕'}
+                          </span>
+                        </button>
+                      ) : (
+                        column.label
+                      )}
+                    </th>
+                  ))}
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {filteredLeads.length === 0 ? (
+                {!data?.items.length ? (
                   <tr>
-                    <td colSpan={7} className="px-6 py-12 text-center">
+                    <td colSpan={visibleColumns.length + 2} className="px-6 py-12 text-center">
                       <div className="text-gray-500">
                         <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                         </svg>
                         <h3 className="mt-2 text-sm font-medium text-gray-900">No leads found</h3>
                         <p className="mt-1 text-sm text-gray-500">
-                          {search || statusFilter !== 'ALL' || sourceFilter
+                          {!isSameFilters(filters, DEFAULT_LEAD_FILTERS)
                             ? 'Try adjusting your filters'
                             : 'Get started by creating a new lead'}
                         </p>
@@ -877,49 +855,28 @@ export default function LeadsPage() {
                     </td>
                   </tr>
                 ) : (
-                  filteredLeads.map((lead: Lead) => (
+                  data.items.map((lead: Lead) => (
                     <tr
                       key={lead.id}
                       onClick={() => router.push(`/dashboard/leads/${lead.id}`)}
-                      className="hover:bg-gray-50 cursor-pointer transition-colors"
+                      className={`hover:bg-gray-50 cursor-pointer transition-colors ${
+                        isAllMatching || activeSelection?.leads[lead.id] ? 'bg-indigo-50' : ''
+                      }`}
                     >
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
-                          <div className="flex-shrink-0 h-10 w-10 rounded-full bg-indigo-600 flex items-center justify-center text-white font-semibold">
-                            {lead.name?.charAt(0) || lead.email?.charAt(0) || '?'}
-                          </div>
-                          <div className="ml-4">
-                            <div className="text-sm font-medium text-gray-900">
-                              {lead.name}
-                            </div>
-                            <div className="text-sm text-gray-500">{lead.email}</div>
-                            {lead.phone && (
-                              <div className="text-sm text-gray-500">{lead.phone}</div>
-                            )}
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">{lead.city || '-'}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[lead.status]}`}>
-                          {lead.status}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">{lead.source || '-'}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">
-                          {lead.estimated_value
-                            ? `$${lead.estimated_value.toLocaleString()}`
-                            : '-'}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {new Date(lead.created_at).toLocaleDateString()}
+                      <td className="pl-6 py-4 w-4" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={isAllMatching || !!activeSelection?.leads[lead.id]}
+                          onChange={() => toggleLeadSelection(lead)}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          aria-label={`Select ${lead.name}`}
+                        />
                       </td>
+                      {visibleColumns.map((column) => (
+                        <td key={column.id} className="px-6 py-4 whitespace-nowrap">
+                          {column.render(lead)}
+                        </td>
+                      ))}
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end gap-2">
                           <button
@@ -962,18 +919,18 @@ export default function LeadsPage() {
           </div>
 
           {/* Pagination */}
-          {data && data.total > data.page_size && (
+          {data && data.total > 0 && (
             <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
               <div className="flex-1 flex justify-between sm:hidden">
                 <button
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  onClick={() => setPage(Math.max(1, page - 1))}
                   disabled={page === 1}
                   className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
                 >
                   Previous
                 </button>
                 <button
-                  onClick={() => setPage((p) => p + 1)}
+                  onClick={() => setPage(page + 1)}
                   disabled={page * data.page_size >= data.total}
                   className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
                 >
@@ -991,17 +948,29 @@ export default function LeadsPage() {
                     of <span className="font-medium">{data.total}</span> results
                   </p>
                 </div>
-                <div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Per page
+                    <select
+                      value={pageSize}
+                      onChange={(e) => navigate({ pageSize: Number(e.target.value), page: 1 })}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {PAGE_SIZE_OPTIONS.map((size) => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
+                    </select>
+                  </label>
                   <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
                     <button
-                      onClick={() => setPage((p) => Math.max(1, p - 1))}
+                      onClick={() => setPage(Math.max(1, page - 1))}
                       disabled={page === 1}
                       className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
                     >
                       Previous
                     </button>
                     <button
-                      onClick={() => setPage((p) => p + 1)}
+                      onClick={() => setPage(page + 1)}
                       disabled={page * data.page_size >= data.total}
                       className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
                     >
@@ -1472,183 +1441,13 @@ export default function LeadsPage() {
           </div>
         )}
 
-        {/* Import Excel Modal */}
-        {isImportModalOpen && (
-          <div className="fixed z-50 inset-0 overflow-y-auto">
-            <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
-              {/* Backdrop */}
-              <div
-                className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
-                onClick={handleImportClose}
-                aria-hidden="true"
-              ></div>
-
-              {/* Center modal vertically */}
-              <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
-
-              {/* Modal panel */}
-              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full relative">
-                <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Import Leads from Excel</h3>
-
-                  {!importResult ? (
-                    <form onSubmit={handleImportSubmit}>
-                      <div className="space-y-4">
-                        {/* Expected columns info */}
-                        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
-                          <h4 className="text-sm font-semibold text-blue-900 mb-2">Expected Excel Columns:</h4>
-                          <div className="text-xs text-blue-800 grid grid-cols-2 gap-x-4 gap-y-1">
-                            <div>• address</div>
-                            <div>• city</div>
-                            <div>• state</div>
-                            <div>• zip</div>
-                            <div>• email_1</div>
-                            <div>• email_2</div>
-                            <div>• phone_1, phone_2, phone_3, phone_4</div>
-                            <div>• landline_1, landline_2, landline_3, landline_4</div>
-                            <div>• mailing_address</div>
-                            <div>• mailing_city, mailing_state, mailing_zip</div>
-                            <div>• owner_1_first_name, owner_1_last_name</div>
-                            <div>• owner_2_first_name, owner_2_last_name</div>
-                            <div>• source_file</div>
-                          </div>
-                        </div>
-
-                        {/* File input */}
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Select Excel File (.xlsx or .xls) *
-                          </label>
-                          <input
-                            type="file"
-                            accept=".xlsx,.xls"
-                            onChange={handleFileSelect}
-                            required
-                            className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
-                          />
-                          {selectedFile && (
-                            <p className="mt-2 text-sm text-gray-600">
-                              Selected: {selectedFile.name} ({(selectedFile.size / 1024).toFixed(2)} KB)
-                            </p>
-                          )}
-                        </div>
-                      </div>
-
-                      {/* Loading message for large imports */}
-                      {importMutation.isPending && (
-                        <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-md p-4">
-                          <div className="flex items-center">
-                            <svg className="animate-spin h-5 w-5 text-yellow-600 mr-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                            <div>
-                              <p className="text-sm font-medium text-yellow-900">Processing import...</p>
-                              <p className="text-xs text-yellow-700 mt-1">Large files may take several minutes. Please wait...</p>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-
-                      <div className="mt-6 sm:flex sm:flex-row-reverse">
-                        <button
-                          type="submit"
-                          disabled={!selectedFile || importMutation.isPending}
-                          className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          {importMutation.isPending && (
-                            <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                          )}
-                          {importMutation.isPending ? 'Importing...' : 'Import Leads'}
-                        </button>
-                        <button
-                          type="button"
-                          onClick={handleImportClose}
-                          disabled={importMutation.isPending}
-                          className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm disabled:opacity-50"
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    </form>
-                  ) : (
-                    /* Import results */
-                    <div className="space-y-4">
-                      {/* Success/Error banner */}
-                      <div className={`rounded-md p-4 ${importResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
-                        <div className="flex">
-                          <div className="flex-shrink-0">
-                            {importResult.success ? (
-                              <svg className="h-5 w-5 text-green-400" fill="currentColor" viewBox="0 0 20 20">
-                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                              </svg>
-                            ) : (
-                              <svg className="h-5 w-5 text-red-400" fill="currentColor" viewBox="0 0 20 20">
-                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                              </svg>
-                            )}
-                          </div>
-                          <div className="ml-3">
-                            <h3 className={`text-sm font-medium ${importResult.success ? 'text-green-800' : 'text-red-800'}`}>
-                              {importResult.message}
-                            </h3>
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Import statistics */}
-                      {importResult.success && (
-                        <div className="bg-gray-50 rounded-md p-4">
-                          <dl className="grid grid-cols-2 gap-4">
-                            <div>
-                              <dt className="text-sm font-medium text-gray-500">Total Rows</dt>
-                              <dd className="text-2xl font-semibold text-gray-900">{importResult.total_rows}</dd>
-                            </div>
-                            <div>
-                              <dt className="text-sm font-medium text-gray-500">Successfully Created</dt>
-                              <dd className="text-2xl font-semibold text-green-600">{importResult.created}</dd>
-                            </div>
-                          </dl>
-                        </div>
-                      )}
-
-                      {/* Errors list */}
-                      {importResult.errors && importResult.errors.length > 0 && (
-                        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
-                          <h4 className="text-sm font-semibold text-yellow-900 mb-2">
-                            Errors ({importResult.errors.length}):
-                          </h4>
-                          <div className="max-h-60 overflow-y-auto">
-                            <ul className="text-xs text-yellow-800 space-y-1">
-                              {importResult.errors.map((error, idx) => (
-                                <li key={idx}>
-                                  <strong>Row {error.row}:</strong> {error.error}
-                                </li>
-                              ))}
-                            </ul>
-                          </div>
-                        </div>
-                      )}
-
-                      <div className="flex justify-end">
-                        <button
-                          type="button"
-                          onClick={handleImportClose}
-                          className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:text-sm"
-                        >
-                          Close
-                        </button>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          </div>
+        {/* Export Modal */}
+        {isExportModalOpen && data && (
+          <ExportLeadsModal params={listParams} count={data.total} onClose={() => setIsExportModalOpen(false)} />
         )}
+
+        {/* Import Modal */}
+        {isImportModalOpen && <ImportLeadsModal onClose={() => setIsImportModalOpen(false)} />}
       </div>
     </RouteGuard>
   );
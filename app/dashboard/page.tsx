@@ -7,18 +7,26 @@
 import { useAuth } from '@/lib/store/auth';
 import { useQuery } from '@tanstack/react-query';
 import { leadsApi, usersApi } from '@/lib/api';
-import { Lead, LeadStatus } from '@/lib/types';
+import { PRIORITY_LABELS, STATUS_LABELS } from '@/lib/lead-fields';
+import { formatMoney, formatPercent, summarizeLeadStats } from '@/lib/lead-stats';
+import { LeadStatsGroup, LeadStatus } from '@/lib/types';
+import { LeadStatsTable } from '@/components/dashboard/lead-stats-table';
+import { LeadTrendsPanel } from '@/components/dashboard/lead-trends-panel';
 import Link from 'next/link';
 
+const STATUS_ORDER = Object.values(LeadStatus) as string[];
+
+const byCount = (a: LeadStatsGroup, b: LeadStatsGroup) => b.count - a.count;
+
 export default function DashboardPage() {
   const { user } = useAuth();
 
   // User data is already loaded from login - no need to refresh on mount
 
-  // Fetch leads statistics
-  const { data: leadsData, isLoading: leadsLoading } = useQuery({
-    queryKey: ['leads-stats'],
-    queryFn: () => leadsApi.listLeads({ page: 1, page_size: 100 }), // Max page size allowed by backend
+  // Fetch leads statistics (aggregated server-side over every lead)
+  const { data: stats, isLoading: leadsLoading, error: statsError } = useQuery({
+    queryKey: ['leads', 'stats'],
+    queryFn: () => leadsApi.getLeadStats(),
   });
 
   // Fetch users statistics
@@ -30,12 +38,10 @@ export default function DashboardPage() {
   });
 
   // Calculate statistics
-  const totalLeads = leadsData?.total || 0;
-  const wonLeads = leadsData?.items.filter((l: Lead) => l.status === LeadStatus.WON).length || 0;
-  const pendingLeads = leadsData?.items.filter((l: Lead) =>
-    ['new', 'contacted', 'qualified', 'proposal', 'negotiation'].includes(l.status)
-  ).length || 0;
-  const highValueLeads = leadsData?.items.filter((l: Lead) => (l.estimated_value || 0) > 0).length || 0;
+  const summary = stats ? summarizeLeadStats(stats) : undefined;
+  const totalLeads = summary?.total || 0;
+  const wonLeads = summary?.won || 0;
+  const pendingLeads = summary?.open || 0;
 
   return (
     <div className="space-y-6">
@@ -75,7 +81,7 @@ export default function DashboardPage() {
                     {leadsLoading ? (
                       <div className="animate-pulse h-6 w-12 bg-gray-200 rounded"></div>
                     ) : (
-                      totalLeads
+                      totalLeads.toLocaleString()
                     )}
                   </dd>
                 </dl>
@@ -109,7 +115,12 @@ export default function DashboardPage() {
                     {leadsLoading ? (
                       <div className="animate-pulse h-6 w-12 bg-gray-200 rounded"></div>
                     ) : (
-                      wonLeads
+                      <>
+                        {wonLeads.toLocaleString()}
+                        <span className="ml-2 text-sm font-medium text-green-600">
+                          {formatPercent(summary?.conversionRate || 0)}
+                        </span>
+                      </>
                     )}
                   </dd>
                 </dl>
@@ -143,7 +154,7 @@ export default function DashboardPage() {
                     {leadsLoading ? (
                       <div className="animate-pulse h-6 w-12 bg-gray-200 rounded"></div>
                     ) : (
-                      pendingLeads
+                      pendingLeads.toLocaleString()
                     )}
                   </dd>
                 </dl>
@@ -172,12 +183,12 @@ export default function DashboardPage() {
               </div>
               <div className="ml-5 w-0 flex-1">
                 <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">High Value Leads</dt>
+                  <dt className="text-sm font-medium text-gray-500 truncate">Pipeline Value</dt>
                   <dd className="text-lg font-semibold text-gray-900">
                     {leadsLoading ? (
                       <div className="animate-pulse h-6 w-12 bg-gray-200 rounded"></div>
                     ) : (
-                      highValueLeads
+                      formatMoney(summary?.pipelineValue || 0)
                     )}
                   </dd>
                 </dl>
@@ -187,6 +198,65 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {statsError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-700">
+          Failed to load lead statistics.
+        </div>
+      )}
+
+      {/* Breakdowns */}
+      {stats && summary && (
+        <>
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Won Value</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatMoney(summary.wonValue)}</dd>
+            </div>
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Close Rate (won of closed)</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatPercent(summary.closeRate)}</dd>
+            </div>
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Lost</dt>
+              <dd className="text-lg font-semibold text-gray-900">{summary.lost.toLocaleString()}</dd>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 lg:grid-cols-2">
+            <LeadStatsTable
+              title="By Status"
+              groups={[...stats.by_status].sort((a, b) => STATUS_ORDER.indexOf(a.key) - STATUS_ORDER.indexOf(b.key))}
+              total={stats.total}
+              getLabel={(g) => STATUS_LABELS[g.key as LeadStatus] || g.key}
+              getHref={(g) => `/dashboard/leads?status=${g.key}`}
+              showConversion={false}
+            />
+            <LeadStatsTable
+              title="By Source"
+              groups={[...stats.by_source].sort(byCount)}
+              total={stats.total}
+              getHref={(g) => (g.key ? `/dashboard/leads?source=${encodeURIComponent(g.key)}` : undefined)}
+            />
+            <LeadStatsTable
+              title="By Priority"
+              groups={[...stats.by_priority].sort((a, b) => (Number(a.key) || 99) - (Number(b.key) || 99))}
+              total={stats.total}
+              getLabel={(g) => PRIORITY_LABELS[Number(g.key)] || 'Not set'}
+            />
+            <LeadStatsTable
+              title="By Assignee"
+              groups={[...stats.by_assignee].sort(byCount)}
+              total={stats.total}
+              getLabel={(g) => (g.key ? g.label || `User #${g.key}` : 'Unassigned')}
+              getHref={(g) => `/dashboard/leads?assignee=${g.key || 'none'}`}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Trends */}
+      <LeadTrendsPanel />
+
       {/* User Role Info */}
       <div className="bg-white shadow rounded-lg p-6">
         <h2 className="text-lg font-medium text-gray-900 mb-4">Your Account</h2>
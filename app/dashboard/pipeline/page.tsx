@@ -0,0 +1,201 @@
+/**
+ * Pipeline Board Page
+ * Kanban view of leads by status with drag-and-drop status changes
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient, InfiniteData, QueryKey } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { Lead, LeadCounts, LeadFilters, LeadStatus, PaginatedResponse } from '@/lib/types';
+import { buildLeadsQueryString, parseLeadFilters, toLeadListParams } from '@/lib/lead-filters';
+import { STATUS_LABELS } from '@/lib/lead-fields';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { LeadFiltersForm } from '@/components/leads/lead-filters-form';
+import { PipelineColumn } from '@/components/pipeline/pipeline-column';
+
+const PIPELINE_STATUSES = Object.values(LeadStatus);
+
+export default function PipelinePage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { offerStatusUndo } = useLeadUndo();
+  // Filters share the leads list's URL format, so links carry over between views
+  const filters = useMemo(() => parseLeadFilters(searchParams), [searchParams]);
+  const query = buildLeadsQueryString(filters);
+  const listParams = toLeadListParams(filters);
+  const [draggingLead, setDraggingLead] = useState<Lead | null>(null);
+
+  const updateFilters = (changes: Partial<LeadFilters>, options?: { replace?: boolean }) => {
+    const next = buildLeadsQueryString({ ...filters, ...changes });
+    const url = next ? `/dashboard/pipeline?${next}` : '/dashboard/pipeline';
+    if (options?.replace) {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
+    }
+  };
+
+  // A status filter narrows the board to the matching columns
+  const visibleStatuses = PIPELINE_STATUSES.filter((status) => {
+    if (filters.won) return status === LeadStatus.WON;
+    return filters.status === 'ALL' || filters.status.toLowerCase() === status;
+  });
+
+  const countsKey: QueryKey = ['leads', 'counts', listParams];
+  const { data: counts } = useQuery({
+    queryKey: countsKey,
+    queryFn: () => leadsApi.getLeadCounts(listParams),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ lead, status }: { lead: Lead; status: LeadStatus }) =>
+      leadsApi.updateLead(lead.id, { status }, 'pipeline'),
+    onMutate: async ({ lead, status }) => {
+      await queryClient.cancelQueries({ queryKey: ['leads'] });
+      const previousColumns = queryClient.getQueriesData<InfiniteData<PaginatedResponse<Lead>>>({
+        queryKey: ['leads', 'pipeline'],
+      });
+      const previousCounts = queryClient.getQueryData<LeadCounts>(countsKey);
+
+      // Move the card between the cached columns: out of every loaded page of
+      // the old one and onto the first page of the new one
+      previousColumns.forEach(([key, column]) => {
+        if (!column) return;
+        if (key[2] === lead.status) {
+          queryClient.setQueryData<InfiniteData<PaginatedResponse<Lead>>>(key, {
+            ...column,
+            pages: column.pages.map((page) => ({
+              ...page,
+              items: page.items.filter((l) => l.id !== lead.id),
+              total: page.total - 1,
+            })),
+          });
+        } else if (key[2] === status) {
+          queryClient.setQueryData<InfiniteData<PaginatedResponse<Lead>>>(key, {
+            ...column,
+            pages: column.pages.map((page, i) => ({
+              ...page,
+              items: i === 0 ? [{ ...lead, status }, ...page.items] : page.items,
+              total: page.total + 1,
+            })),
+          });
+        }
+      });
+
+      if (previousCounts) {
+        const value = lead.estimated_value || 0;
+        queryClient.setQueryData<LeadCounts>(countsKey, {
+          ...previousCounts,
+          by_status: {
+            ...previousCounts.by_status,
+            [lead.status]: (previousCounts.by_status[lead.status] || 1) - 1,
+            [status]: (previousCounts.by_status[status] || 0) + 1,
+          },
+          value_by_status: {
+            ...previousCounts.value_by_status,
+            [lead.status]: (previousCounts.value_by_status[lead.status] || 0) - value,
+            [status]: (previousCounts.value_by_status[status] || 0) + value,
+          },
+        });
+      }
+
+      return { previousColumns, previousCounts };
+    },
+    onError: (error, { lead, status }, context) => {
+      // Roll back to the cached state from before the drop
+      context?.previousColumns.forEach(([key, column]) => queryClient.setQueryData(key, column));
+      if (context?.previousCounts) queryClient.setQueryData(countsKey, context.previousCounts);
+      alert(
+        `Could not move "${lead.name}" to ${STATUS_LABELS[status]}: ${getApiErrorMessage(error, 'Failed to update lead')}`
+      );
+    },
+    onSuccess: (_, { lead, status }) => {
+      offerStatusUndo(
+        [{ lead_id: lead.id, previous_status: lead.status }],
+        `Moved "${lead.name}" to ${STATUS_LABELS[status]}`
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    },
+  });
+
+  const handleDrop = (status: LeadStatus) => {
+    if (draggingLead && draggingLead.status !== status) {
+      moveMutation.mutate({ lead: draggingLead, status });
+    }
+    setDraggingLead(null);
+  };
+
+  const totalValue = visibleStatuses.reduce((sum, status) => sum + (counts?.value_by_status[status] || 0), 0);
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Sales Pipeline</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Drag leads between columns to change their status
+              {counts && (
+                <>
+                  {' '}· <strong>{counts.total.toLocaleString()}</strong> leads,{' '}
+                  <strong>${totalValue.toLocaleString()}</strong> estimated value
+                </>
+              )}
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <Link
+              href={query ? `/dashboard/leads?${query}` : '/dashboard/leads'}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              List View
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <LeadFiltersForm filters={filters} onChange={updateFilters} />
+
+        <div className="flex gap-3">
+          {(['has_phone', 'has_email'] as const).map((key) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters[key]}
+                onChange={(e) => updateFilters({ [key]: e.target.checked })}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {key === 'has_phone' ? '📞 Has Phone' : '📧 Has Email'}
+            </label>
+          ))}
+        </div>
+
+        {/* Board */}
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {visibleStatuses.map((status) => (
+            <PipelineColumn
+              key={status}
+              status={status}
+              params={listParams}
+              count={counts?.by_status[status] ?? (counts ? 0 : undefined)}
+              value={counts?.value_by_status[status]}
+              draggingLead={draggingLead}
+              onDragStart={setDraggingLead}
+              onDragEnd={() => setDraggingLead(null)}
+              onDrop={handleDrop}
+            />
+          ))}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * Source Report Page
+ * Funnel, conversion and won value per lead source and source file, with
+ * cost per lead and ROI from the cost entered for each purchased list
+ */
+
+'use client';
+
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { leadsApi, sourceCostsApi } from '@/lib/api';
+import { downloadFile } from '@/lib/csv';
+import { STATUS_LABELS } from '@/lib/lead-fields';
+import { formatMoney, formatPercent } from '@/lib/lead-stats';
+import {
+  REPORT_STATUSES,
+  SourceReportRow,
+  buildSourceReport,
+  getReportTotals,
+  getRowMetrics,
+  sourceReportToCsv,
+} from '@/lib/source-report';
+import { RouteGuard } from '@/components/auth/route-guard';
+import { SourceCostInput } from '@/components/reports/source-cost-input';
+import { SourceFunnel } from '@/components/reports/source-funnel';
+
+// Select value for the whole report; sources can be '' when not set
+const ALL_SOURCES = '__all__';
+
+const formatOptionalMoney = (value: number | null) => (value === null ? '—' : formatMoney(value));
+
+export default function SourceReportPage() {
+  const [expandedSources, setExpandedSources] = useState<string[]>([]);
+  const [funnelSource, setFunnelSource] = useState<string | null>(null); // null: all sources
+
+  const { data: funnels, isLoading, error } = useQuery({
+    queryKey: ['leads', 'stats', 'sources'],
+    queryFn: leadsApi.getSourceFunnels,
+  });
+
+  const { data: costs } = useQuery({
+    queryKey: ['source-costs'],
+    queryFn: sourceCostsApi.listCosts,
+  });
+
+  const groups = buildSourceReport(funnels || [], costs || []);
+  const totals = getReportTotals(groups);
+  const totalMetrics = getRowMetrics(totals);
+  const funnelRow = (funnelSource !== null && groups.find((g) => g.totals.source === funnelSource)?.totals) || totals;
+
+  const toggleSource = (source: string) => {
+    setExpandedSources(
+      expandedSources.includes(source) ? expandedSources.filter((s) => s !== source) : [...expandedSources, source]
+    );
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(
+      sourceReportToCsv(groups),
+      `source-report-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const renderCells = (row: SourceReportRow) => {
+    const metrics = getRowMetrics(row);
+    return (
+      <>
+        <td className="px-3 py-2 text-right text-gray-900">{row.total.toLocaleString()}</td>
+        {REPORT_STATUSES.map((status) => (
+          <td key={status} className="px-3 py-2 text-right text-gray-700">
+            {(row.by_status[status] || 0).toLocaleString()}
+          </td>
+        ))}
+        <td className="px-3 py-2 text-right text-gray-900">{formatPercent(metrics.conversionRate)}</td>
+        <td className="px-3 py-2 text-right text-gray-900">{formatMoney(row.won_value)}</td>
+        <td className="px-3 py-2 text-right text-gray-700">{formatOptionalMoney(metrics.costPerLead)}</td>
+        <td className="px-3 py-2 text-right text-gray-700">{formatOptionalMoney(metrics.costPerWon)}</td>
+        <td
+          className={`px-3 py-2 text-right font-medium ${
+            metrics.roi === null ? 'text-gray-400' : metrics.roi >= 0 ? 'text-green-700' : 'text-red-700'
+          }`}
+        >
+          {metrics.roi === null ? '—' : formatPercent(metrics.roi)}
+        </td>
+      </>
+    );
+  };
+
+  return (
+    <RouteGuard requireManager>
+      <div className="space-y-6">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Source Report</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Which lead sources and purchased lists convert, and what they return for what they cost
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex gap-2 print:hidden">
+            <button
+              type="button"
+              onClick={handleExportCsv}
+              disabled={groups.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => window.print()}
+              disabled={groups.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              🖨️ Print / Save PDF
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-gray-500">Loading report...</div>
+        ) : error ? (
+          <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-red-600">Failed to load the source report.</div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-gray-500">No leads yet.</div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-5 lg:grid-cols-5">
+              {[
+                { label: 'Leads', value: totals.total.toLocaleString() },
+                { label: 'Conversion', value: formatPercent(totalMetrics.conversionRate) },
+                { label: 'Won Value', value: formatMoney(totals.won_value) },
+                { label: 'List Cost', value: formatOptionalMoney(totals.cost) },
+                { label: 'ROI', value: totalMetrics.roi === null ? '—' : formatPercent(totalMetrics.roi) },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white shadow rounded-lg p-5">
+                  <dt className="text-sm font-medium text-gray-500">{stat.label}</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{stat.value}</dd>
+                </div>
+              ))}
+            </div>
+
+            {/* Funnel */}
+            <div className="bg-white shadow rounded-lg p-4 break-inside-avoid">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-medium text-gray-900">Funnel: {funnelSource === null ? 'All sources' : funnelSource || 'Not set'}</h2>
+                <select
+                  value={funnelSource ?? ALL_SOURCES}
+                  onChange={(e) => setFunnelSource(e.target.value === ALL_SOURCES ? null : e.target.value)}
+                  className="rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-indigo-500 focus:ring-indigo-500 print:hidden"
+                >
+                  <option value={ALL_SOURCES}>All sources</option>
+                  {groups.map((g) => (
+                    <option key={g.totals.source} value={g.totals.source}>
+                      {g.totals.source || 'Not set'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <SourceFunnel row={funnelRow} />
+            </div>
+
+            {/* Per source and file */}
+            <div className="bg-white shadow rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Source / File</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Leads</th>
+                    {REPORT_STATUSES.map((status) => (
+                      <th key={status} className="px-3 py-2 text-right font-medium text-gray-500">
+                        {STATUS_LABELS[status]}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Conversion</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Won Value</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Cost / Lead</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Cost / Won</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">ROI</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">List Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {groups.map(({ totals: source, files }) => {
+                    // File rows are collapsed on screen but always printed
+                    const isExpanded = expandedSources.includes(source.source);
+                    return (
+                      <Fragment key={source.source}>
+                        <tr className="bg-white font-medium">
+                          <td className="px-3 py-2">
+                            <button
+                              type="button"
+                              onClick={() => toggleSource(source.source)}
+                              className="inline-flex items-center gap-1 text-gray-900 hover:text-indigo-600"
+                            >
+                              <span className="w-3 text-gray-400 print:hidden">{isExpanded ? '▾' : '▸'}</span>
+                              {source.source || 'Not set'}
+                            </button>
+                            <Link
+                              href={`/dashboard/leads?source=${encodeURIComponent(source.source)}`}
+                              className="ml-2 text-xs text-indigo-600 hover:text-indigo-800 print:hidden"
+                            >
+                              View leads
+                            </Link>
+                          </td>
+                          {renderCells(source)}
+                          <td className="px-3 py-2 text-right text-gray-700">{formatOptionalMoney(source.cost)}</td>
+                        </tr>
+                        {files.map((file) => (
+                          <tr
+                            key={file.source_file ?? ''}
+                            className={`bg-gray-50 text-gray-700 ${isExpanded ? '' : 'hidden print:table-row'}`}
+                          >
+                            <td className="px-3 py-2 pl-10 break-all">{file.source_file || '(not from an import)'}</td>
+                            {renderCells(file)}
+                            <td className="px-3 py-2 text-right">
+                              {file.source_file ? (
+                                <SourceCostInput
+                                  key={`${file.source_file}:${file.cost}`}
+                                  source={file.source}
+                                  sourceFile={file.source_file}
+                                  cost={file.cost}
+                                />
+                              ) : (
+                                '—'
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500">
+              Cost per lead, cost per won and ROI only count files with a cost entered. Expand a source to enter what each list cost.
+            </p>
+          </>
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
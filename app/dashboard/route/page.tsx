@@ -0,0 +1,312 @@
+/**
+ * Route Planner Page
+ * Ordered field-visit itinerary for a selection of leads (from the map, a
+ * city or the leads list), printable, with visits logged per stop
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { markContactedChanges } from '@/lib/followups';
+import { fetchAllLeads } from '@/lib/lead-export';
+import { parseLeadIds } from '@/lib/lead-filters';
+import { PHONE_FIELDS, PRIORITY_LABELS, STATUS_COLORS, STATUS_LABELS, getLeadFieldLabel } from '@/lib/lead-fields';
+import { useGeocodedLeads } from '@/lib/map/geocoding';
+import { GEOCODER_SETUP_HINT, LatLng } from '@/lib/map/providers';
+import { distanceMiles, optimizeRoute, routeDistanceMiles } from '@/lib/map/route';
+import { useAuthStore } from '@/lib/store/auth';
+import { isVisitedToday, useRouteVisitsStore } from '@/lib/store/route-visits';
+import { Lead } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+
+// A day of visits; larger selections are cut to the newest leads
+const MAX_ROUTE_STOPS = 100;
+
+const formatAddress = (lead: Lead) =>
+  [lead.address, lead.city, [lead.state, lead.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+
+const formatMiles = (miles: number) => `${miles.toFixed(1)} mi`;
+
+export default function RoutePlannerPage() {
+  const searchParams = useSearchParams();
+  const queryClient = useQueryClient();
+  const ids = searchParams.get('ids') || '';
+  const city = searchParams.get('city') || '';
+  const state = searchParams.get('state') || '';
+  const leadIds = parseLeadIds(ids);
+  const hasSelection = leadIds.length > 0 || !!city || !!state;
+
+  const [start, setStart] = useState<LatLng | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const user = useAuthStore((s) => s.user);
+  const visits = useRouteVisitsStore((s) => (user ? s.visitsByUser[user.id] : undefined)) || {};
+  const markVisited = useRouteVisitsStore((s) => s.markVisited);
+
+  const { data: leads, isLoading, error } = useQuery({
+    queryKey: ['leads', 'route', ids, city, state],
+    queryFn: () =>
+      fetchAllLeads(
+        leadIds.length > 0
+          ? { lead_ids: leadIds }
+          : { city: city || undefined, state: state || undefined, sort_by: 'created_at', sort_order: 'desc' },
+        { maxLeads: MAX_ROUTE_STOPS }
+      ),
+    enabled: hasSelection,
+  });
+
+  const { points, pending, error: geocodeError, isEnabled: isGeocoding } = useGeocodedLeads(leads);
+  const stops = useMemo(() => optimizeRoute(points, start || undefined), [points, start]);
+  const totalMiles = routeDistanceMiles(stops, start || undefined);
+  const unlocatedLeads = (leads || []).filter((lead) => !points.some((p) => p.lead.id === lead.id));
+  const visitedCount = stops.filter((stop) => isVisitedToday(visits[stop.lead.id])).length;
+
+  const visitMutation = useMutation({
+    mutationFn: async (lead: Lead) => {
+      // The activity is the record of the visit, so it goes first: if it fails nothing
+      // has changed, and once it's saved the stop is marked so it can't be logged twice
+      const changes = markContactedChanges(lead, false);
+      await leadsApi.createLeadActivity(lead.id, {
+        activity_type: 'visit',
+        description: `Visited in person at ${formatAddress(lead) || 'the property'}`,
+      });
+      if (user) markVisited(user.id, lead.id, changes.last_contact_date!);
+      try {
+        await leadsApi.updateLead(lead.id, changes, 'route_planner');
+      } catch (error) {
+        alert(
+          `Error: The visit was logged, but the last contact date wasn't updated: ${getApiErrorMessage(error, 'Failed to update lead')}`
+        );
+      }
+    },
+    onSuccess: (_, lead) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['lead', lead.id] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to mark the visit')}`);
+    },
+  });
+
+  const startFromMyLocation = () => {
+    if (!navigator.geolocation) {
+      alert('Error: Location is not available in this browser');
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setStart({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setIsLocating(false);
+      },
+      () => {
+        alert('Error: Could not get your location');
+        setIsLocating(false);
+      }
+    );
+  };
+
+  const selectionLabel = leadIds.length > 0 ? `${leadIds.length} selected leads` : [city, state].filter(Boolean).join(', ');
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Visit Route</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              {hasSelection
+                ? `${selectionLabel} · ${new Date().toLocaleDateString()}`
+                : 'Plan a route from a map selection, a city, or leads selected in the leads list'}
+            </p>
+          </div>
+          {stops.length > 0 && (
+            <div className="mt-4 sm:mt-0 flex items-center gap-2 print:hidden">
+              <button
+                type="button"
+                onClick={() => (start ? setStart(null) : startFromMyLocation())}
+                disabled={isLocating}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isLocating ? 'Locating...' : start ? 'Start from first stop' : '📍 Start from my location'}
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                🖨️ Print / Save PDF
+              </button>
+            </div>
+          )}
+        </div>
+
+        {!hasSelection ? (
+          <div className="bg-white rounded-2xl shadow-lg p-12 border border-gray-100 text-center">
+            <div className="text-6xl mb-4">🚗</div>
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No Stops Selected</h3>
+            <p className="text-gray-600 mb-4">
+              Use <strong>Plan route</strong> on a city card, a map selection, or selected leads.
+            </p>
+            <Link href="/dashboard/cities" className="text-indigo-600 hover:text-indigo-800 font-medium">
+              Go to Cities →
+            </Link>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-gray-500">Loading leads...</div>
+        ) : error ? (
+          <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-red-600">Failed to load leads.</div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              {[
+                { label: 'Stops', value: stops.length.toLocaleString() },
+                { label: 'Distance (straight line)', value: formatMiles(totalMiles) },
+                { label: 'Visited today', value: `${visitedCount} / ${stops.length}` },
+                { label: 'Not on route', value: unlocatedLeads.length.toLocaleString() },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white shadow rounded-lg p-4">
+                  <div className="text-sm font-medium text-gray-500">{stat.label}</div>
+                  <div className="text-2xl font-semibold text-gray-900">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {(pending > 0 || geocodeError || !isGeocoding || leads?.length === MAX_ROUTE_STOPS) && (
+              <div className="space-y-1 text-sm print:hidden">
+                {pending > 0 && (
+                  <p className="text-indigo-600">Locating {pending} addresses... the stop order updates as they resolve.</p>
+                )}
+                {geocodeError && <p className="text-red-600">Geocoding paused: {geocodeError}</p>}
+                {!isGeocoding && <p className="text-amber-700">{GEOCODER_SETUP_HINT}</p>}
+                {leads?.length === MAX_ROUTE_STOPS && (
+                  <p className="text-gray-600">Only the newest {MAX_ROUTE_STOPS} leads are included; narrow the selection to plan the rest.</p>
+                )}
+              </div>
+            )}
+
+            {/* Itinerary */}
+            <ol className="bg-white shadow rounded-lg divide-y divide-gray-100">
+              {stops.map((stop, index) => {
+                const { lead } = stop;
+                const visitedAt = visits[lead.id];
+                const visited = isVisitedToday(visitedAt);
+                const previous = index > 0 ? stops[index - 1] : start;
+                const phones = PHONE_FIELDS.filter((key) => lead[key]);
+                const address = formatAddress(lead);
+
+                return (
+                  <li key={lead.id} className={`p-4 flex gap-4 break-inside-avoid ${visited ? 'bg-green-50' : ''}`}>
+                    <div
+                      className={`flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center text-sm font-bold ${
+                        visited ? 'bg-green-600 text-white' : 'bg-indigo-600 text-white'
+                      }`}
+                    >
+                      {visited ? '✓' : index + 1}
+                    </div>
+
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link href={`/dashboard/leads/${lead.id}`} className="font-semibold text-gray-900 hover:text-indigo-600">
+                          {lead.name}
+                        </Link>
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_COLORS[lead.status]}`}>
+                          {STATUS_LABELS[lead.status]}
+                        </span>
+                        {lead.priority && <span className="text-xs text-gray-600">{PRIORITY_LABELS[lead.priority]}</span>}
+                      </div>
+
+                      <div className="text-sm text-gray-700">
+                        {address || 'No address'}
+                        {stop.precision === 'city' && (
+                          <span className="ml-2 text-xs text-amber-700">(approximate position)</span>
+                        )}
+                      </div>
+
+                      {phones.length > 0 && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                          {phones.map((key) => (
+                            <a key={key} href={`tel:${lead[key]}`} className="text-indigo-600 hover:text-indigo-800">
+                              <span className="text-gray-500">{getLeadFieldLabel(key)}:</span> {lead[key]}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                        {lead.estimated_value ? <span>Value: ${lead.estimated_value.toLocaleString()}</span> : null}
+                        {lead.service_interest && <span>Interest: {lead.service_interest}</span>}
+                        {lead.last_contact_date && (
+                          <span>Last contact: {new Date(lead.last_contact_date).toLocaleDateString()}</span>
+                        )}
+                        {lead.next_followup_date && (
+                          <span>Follow-up: {new Date(lead.next_followup_date).toLocaleDateString()}</span>
+                        )}
+                      </div>
+                      {lead.notes_summary && <p className="text-sm text-gray-600 line-clamp-2">{lead.notes_summary}</p>}
+                    </div>
+
+                    <div className="flex-shrink-0 flex flex-col items-end gap-2 text-sm">
+                      {previous && <span className="text-gray-500">{formatMiles(distanceMiles(previous, stop))}</span>}
+                      {visited ? (
+                        <span className="text-green-700 font-medium">
+                          Visited {new Date(visitedAt!).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => visitMutation.mutate(lead)}
+                          disabled={visitMutation.isPending && visitMutation.variables?.id === lead.id}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 print:hidden"
+                        >
+                          {visitMutation.isPending && visitMutation.variables?.id === lead.id ? 'Saving...' : 'Mark visited'}
+                        </button>
+                      )}
+                      {address && (
+                        <a
+                          href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address)}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-indigo-600 hover:text-indigo-800 print:hidden"
+                        >
+                          Directions ↗
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+              {stops.length === 0 && (
+                <li className="px-4 py-6 text-sm text-gray-500">
+                  {pending > 0 ? 'Locating stops...' : 'None of these leads could be placed on the map.'}
+                </li>
+              )}
+            </ol>
+
+            {/* Leads without a location */}
+            {unlocatedLeads.length > 0 && pending === 0 && (
+              <div className="bg-white shadow rounded-lg p-4 break-inside-avoid">
+                <h2 className="text-sm font-semibold text-gray-900 mb-2">Not on the route (no known location)</h2>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {unlocatedLeads.map((lead) => (
+                    <li key={lead.id}>
+                      <Link href={`/dashboard/leads/${lead.id}`} className="hover:text-indigo-600">
+                        {lead.name}
+                      </Link>
+                      {lead.phone && <span className="text-gray-500"> · {lead.phone}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
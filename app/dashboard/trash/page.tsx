@@ -0,0 +1,388 @@
+/**
+ * Trash Page
+ * Soft-deleted leads, restorable until the retention window purges them
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { trashApi, getApiErrorMessage } from '@/lib/api';
+import { useIsAdmin } from '@/lib/store/auth';
+import { BulkOperationResponse, Lead } from '@/lib/types';
+import { RouteGuard } from '@/components/auth/route-guard';
+
+const PAGE_SIZE = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getPurgeDate = (lead: Lead, retentionDays: number) =>
+  lead.deleted_at ? new Date(new Date(lead.deleted_at).getTime() + retentionDays * DAY_MS) : null;
+
+// One alert line per failed lead, so partial failures are not lost
+const describeResult = (action: string, result: BulkOperationResponse) => {
+  const failures = result.results
+    .filter((r) => !r.success)
+    .map((r) => `#${r.lead_id}${r.lead_name ? ` ${r.lead_name}` : ''}: ${r.error || 'failed'}`);
+  return [`${action} ${result.succeeded} of ${result.total} leads.`, ...failures].join('\n');
+};
+
+export default function TrashPage() {
+  const queryClient = useQueryClient();
+  const isAdmin = useIsAdmin();
+  const [page, setPage] = useState(1);
+  const [searchDraft, setSearchDraft] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [retentionDraft, setRetentionDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchDraft.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchDraft]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['trash', search, page],
+    queryFn: () => trashApi.listDeletedLeads({ search: search || undefined, page, page_size: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['trash-settings'],
+    queryFn: trashApi.getSettings,
+  });
+
+  const handleSettled = () => {
+    setSelectedIds([]);
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (leadIds: number[]) => trashApi.restoreLeads(leadIds),
+    onSuccess: (result) => {
+      handleSettled();
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      if (result.failed > 0) alert(describeResult('Restored', result));
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to restore leads')}`);
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (leadIds: number[]) => trashApi.purgeLeads(leadIds),
+    onSuccess: (result) => {
+      handleSettled();
+      if (result.failed > 0) alert(describeResult('Permanently deleted', result));
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete leads')}`);
+    },
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: trashApi.emptyTrash,
+    onSuccess: (result) => {
+      handleSettled();
+      alert(`Permanently deleted ${result.deleted_count} leads.`);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to empty trash')}`);
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (retentionDays: number) => trashApi.updateSettings({ retention_days: retentionDays }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['trash-settings'], updated);
+      setRetentionDraft(null);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save retention period')}`);
+    },
+  });
+
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending || emptyMutation.isPending;
+  const pageIds = data?.items.map((lead) => lead.id) || [];
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+
+  const toggleLead = (leadId: number) => {
+    setSelectedIds(
+      selectedIds.includes(leadId) ? selectedIds.filter((id) => id !== leadId) : [...selectedIds, leadId]
+    );
+  };
+
+  const togglePage = () => {
+    setSelectedIds(
+      allOnPageSelected
+        ? selectedIds.filter((id) => !pageIds.includes(id))
+        : [...selectedIds, ...pageIds.filter((id) => !selectedIds.includes(id))]
+    );
+  };
+
+  const handlePurge = (leadIds: number[]) => {
+    if (confirm(`Permanently delete ${leadIds.length} lead${leadIds.length === 1 ? '' : 's'}? This action cannot be undone.`)) {
+      purgeMutation.mutate(leadIds);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    const confirmation = prompt(
+      `WARNING: This will permanently delete all ${data?.total ?? ''} leads in trash!\n\nType "EMPTY_TRASH" to confirm:`
+    );
+    if (confirmation === 'EMPTY_TRASH') {
+      emptyMutation.mutate();
+    } else if (confirmation !== null) {
+      alert('Cancelled - confirmation string did not match.');
+    }
+  };
+
+  const handleSaveRetention = () => {
+    const days = parseInt(retentionDraft || '', 10);
+    if (isNaN(days) || days < 1) {
+      alert('Retention must be at least 1 day.');
+      return;
+    }
+    settingsMutation.mutate(days);
+  };
+
+  return (
+    <RouteGuard requireApproval>
+      <div className="space-y-6">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              {settings
+                ? `Deleted leads are permanently removed ${settings.retention_days} days after deletion`
+                : 'Deleted leads can be restored until they are purged'}
+            </p>
+          </div>
+          {isAdmin && (
+            <button
+              type="button"
+              onClick={handleEmptyTrash}
+              disabled={isBusy || !data?.total}
+              className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {emptyMutation.isPending ? 'Emptying...' : 'Empty Trash'}
+            </button>
+          )}
+        </div>
+
+        {/* Retention */}
+        {isAdmin && settings && (
+          <div className="bg-white shadow rounded-lg p-4 flex flex-wrap items-center gap-3 text-sm">
+            <label htmlFor="retention-days" className="font-medium text-gray-700">
+              Keep deleted leads for
+            </label>
+            <input
+              id="retention-days"
+              type="number"
+              min={1}
+              value={retentionDraft ?? String(settings.retention_days)}
+              onChange={(e) => setRetentionDraft(e.target.value)}
+              className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 px-3 py-1.5 border"
+            />
+            <span className="text-gray-700">days</span>
+            {retentionDraft !== null && (
+              <button
+                type="button"
+                onClick={handleSaveRetention}
+                disabled={settingsMutation.isPending}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {settingsMutation.isPending ? 'Saving...' : 'Save'}
+              </button>
+            )}
+            {settings.next_purge_at && (
+              <span className="text-gray-500">
+                Next automatic purge: {new Date(settings.next_purge_at).toLocaleString()}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Search and bulk actions */}
+        <div className="bg-white shadow rounded-lg p-4 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+            placeholder="Search deleted leads..."
+            className="flex-1 min-w-[12rem] border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm px-3 py-2 border"
+          />
+          {selectedIds.length > 0 && (
+            <>
+              <span className="text-sm text-gray-700">{selectedIds.length} selected</span>
+              <button
+                type="button"
+                onClick={() => restoreMutation.mutate(selectedIds)}
+                disabled={isBusy}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+              </button>
+              {isAdmin && (
+                <button
+                  type="button"
+                  onClick={() => handlePurge(selectedIds)}
+                  disabled={isBusy}
+                  className="inline-flex items-center px-3 py-1.5 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                >
+                  Delete Forever
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setSelectedIds([])}
+                className="text-sm font-medium text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">Failed to load trash. Please try again.</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 w-10">
+                      <input
+                        type="checkbox"
+                        checked={allOnPageSelected}
+                        onChange={togglePage}
+                        disabled={!pageIds.length}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Lead
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Location
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Deleted
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Purged On
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {!data?.items.length ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                        {search ? 'No deleted leads match your search.' : 'Trash is empty.'}
+                      </td>
+                    </tr>
+                  ) : (
+                    data.items.map((lead) => {
+                      const purgeDate = settings ? getPurgeDate(lead, settings.retention_days) : null;
+                      return (
+                        <tr key={lead.id} className={selectedIds.includes(lead.id) ? 'bg-indigo-50' : ''}>
+                          <td className="px-4 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(lead.id)}
+                              onChange={() => toggleLead(lead.id)}
+                              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">
+                              #{lead.id} {lead.name}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {[lead.phone, lead.email].filter(Boolean).join(' · ') || '-'}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {[lead.city, lead.state].filter(Boolean).join(', ') || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            <div>{lead.deleted_at ? new Date(lead.deleted_at).toLocaleString() : '-'}</div>
+                            {lead.deleted_by && <div className="text-xs text-gray-400">by {lead.deleted_by}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {purgeDate ? purgeDate.toLocaleDateString() : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                            <button
+                              type="button"
+                              onClick={() => restoreMutation.mutate([lead.id])}
+                              disabled={isBusy}
+                              className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                            >
+                              Restore
+                            </button>
+                            {isAdmin && (
+                              <button
+                                type="button"
+                                onClick={() => handlePurge([lead.id])}
+                                disabled={isBusy}
+                                className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                              >
+                                Delete Forever
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {data && data.total > data.page_size && (
+              <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+                <p className="text-sm text-gray-700">
+                  Showing{' '}
+                  <span className="font-medium">{(page - 1) * data.page_size + 1}</span> to{' '}
+                  <span className="font-medium">{Math.min(page * data.page_size, data.total)}</span> of{' '}
+                  <span className="font-medium">{data.total}</span> deleted leads
+                </p>
+                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+                  <button
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page * data.page_size >= data.total}
+                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </nav>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
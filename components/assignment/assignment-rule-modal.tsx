@@ -0,0 +1,183 @@
+/**
+ * Assignment Rule Modal Component
+ * Creates or edits a round-robin or territory auto-assignment rule
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { assignmentRulesApi, getApiErrorMessage } from '@/lib/api';
+import { ASSIGNMENT_RULE_TYPE_LABELS, useAssignableUsers } from '@/lib/assignment';
+import { useTerritories } from '@/lib/territories';
+import { AssignmentRule, AssignmentRuleCreate, AssignmentRuleType } from '@/lib/types';
+
+interface AssignmentRuleModalProps {
+  rule: AssignmentRule | null; // null creates a new rule
+  nextPriority: number;
+  onClose: () => void;
+}
+
+export function AssignmentRuleModal({ rule, nextPriority, onClose }: AssignmentRuleModalProps) {
+  const queryClient = useQueryClient();
+  const { data: users, isLoading: isLoadingUsers } = useAssignableUsers();
+  const { data: territories } = useTerritories();
+  const [name, setName] = useState(rule?.name || '');
+  const [ruleType, setRuleType] = useState<AssignmentRuleType>(rule?.rule_type || 'round_robin');
+  const [userIds, setUserIds] = useState<number[]>(rule?.user_ids || []);
+  const [territoryId, setTerritoryId] = useState<number | null>(rule?.territory_id ?? null);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: AssignmentRuleCreate) =>
+      rule ? assignmentRulesApi.updateRule(rule.id, data) : assignmentRulesApi.createRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+      onClose();
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save rule')}`);
+    },
+  });
+
+  const isTerritory = ruleType === 'territory';
+  const canSave = name.trim() && (isTerritory ? territoryId !== null : userIds.length > 0);
+
+  const toggleUser = (userId: number) => {
+    setUserIds(userIds.includes(userId) ? userIds.filter((id) => id !== userId) : [...userIds, userId]);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    saveMutation.mutate({
+      name: name.trim(),
+      rule_type: ruleType,
+      user_ids: isTerritory ? [] : userIds,
+      territory_id: isTerritory ? territoryId : null,
+      priority: rule?.priority ?? nextPriority,
+      is_active: rule?.is_active ?? true,
+    });
+  };
+
+  return (
+    <div className="fixed z-50 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={onClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Center modal vertically */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full relative">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 space-y-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              {rule ? 'Edit Assignment Rule' : 'New Assignment Rule'}
+            </h3>
+
+            <div>
+              <label htmlFor="ruleName" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                id="ruleName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Texas team"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            {/* Rule type */}
+            <div className="flex gap-6">
+              {(Object.keys(ASSIGNMENT_RULE_TYPE_LABELS) as AssignmentRuleType[]).map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="ruleType"
+                    checked={ruleType === value}
+                    onChange={() => setRuleType(value)}
+                    className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {ASSIGNMENT_RULE_TYPE_LABELS[value]}
+                </label>
+              ))}
+            </div>
+
+            {isTerritory && (
+              <div>
+                <label htmlFor="ruleTerritory" className="block text-sm font-medium text-gray-700 mb-1">
+                  Territory
+                </label>
+                <select
+                  id="ruleTerritory"
+                  value={territoryId ?? ''}
+                  onChange={(e) => setTerritoryId(e.target.value ? Number(e.target.value) : null)}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Choose a territory...</option>
+                  {territories?.map((territory) => (
+                    <option key={territory.id} value={territory.id}>
+                      {territory.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Leads in the territory go to its owners in rotation. Territories are managed on the Cities page.
+                </p>
+              </div>
+            )}
+
+            {/* Assignees */}
+            {!isTerritory && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                  Assign to {userIds.length > 1 && <span className="font-normal text-gray-500">(in rotation)</span>}
+                </h4>
+                {isLoadingUsers ? (
+                  <p className="text-sm text-gray-500">Loading users...</p>
+                ) : (
+                  <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-md p-3 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {users?.map((user) => (
+                      <label key={user.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={userIds.includes(user.id)}
+                          onChange={() => toggleUser(user.id)}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {user.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!canSave || saveMutation.isPending}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Rule'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
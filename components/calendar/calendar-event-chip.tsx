@@ -0,0 +1,42 @@
+/**
+ * Calendar Event Chip Component
+ * One follow-up or contact on the calendar, colored by lead status
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { CalendarEvent } from '@/lib/calendar';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+
+interface CalendarEventChipProps {
+  event: CalendarEvent;
+  showTime?: boolean;
+  // Only follow-ups can be dragged; contacts are history
+  onDragStart?: (event: CalendarEvent) => void;
+  onDragEnd?: () => void;
+}
+
+export function CalendarEventChip({ event, showTime = true, onDragStart, onDragEnd }: CalendarEventChipProps) {
+  const isFollowup = event.kind === 'followup';
+  const time = event.at.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <Link
+      href={`/dashboard/leads/${event.lead.id}`}
+      draggable={isFollowup && !!onDragStart}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(event.lead.id));
+        onDragStart?.(event);
+      }}
+      onDragEnd={onDragEnd}
+      title={`${isFollowup ? 'Follow-up' : 'Last contact'} · ${event.lead.name} · ${STATUS_LABELS[event.lead.status]} · ${time}`}
+      className={`block truncate rounded px-1.5 py-0.5 text-xs font-medium ${STATUS_COLORS[event.lead.status]} ${
+        isFollowup ? 'cursor-move' : 'border border-dashed border-current opacity-75'
+      }`}
+    >
+      {isFollowup ? '⏰' : '✓'} {showTime && <span className="opacity-75">{time}</span>} {event.lead.name}
+    </Link>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Lead Stats Table Component
+ * One grouping of the dashboard analytics: leads, wins, conversion and value
+ * per status, source, priority or assignee
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { formatMoney, formatPercent } from '@/lib/lead-stats';
+import { LeadStatsGroup } from '@/lib/types';
+
+interface LeadStatsTableProps {
+  title: string;
+  groups: LeadStatsGroup[];
+  total: number;
+  getLabel?: (group: LeadStatsGroup) => string;
+  getHref?: (group: LeadStatsGroup) => string | undefined; // Leads list filtered to the group
+  showConversion?: boolean;
+}
+
+export function LeadStatsTable({ title, groups, total, getLabel, getHref, showConversion = true }: LeadStatsTableProps) {
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <h2 className="px-4 py-3 border-b border-gray-200 text-lg font-medium text-gray-900">{title}</h2>
+      {groups.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-500">No leads yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500"></th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">Leads</th>
+              {showConversion && <th className="px-4 py-2 text-right font-medium text-gray-500">Won</th>}
+              {showConversion && <th className="px-4 py-2 text-right font-medium text-gray-500">Conversion</th>}
+              <th className="px-4 py-2 text-right font-medium text-gray-500">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {groups.map((group) => {
+              const label = getLabel ? getLabel(group) : group.label || group.key || 'Not set';
+              const href = getHref?.(group);
+              return (
+                <tr key={group.key}>
+                  <td className="px-4 py-2">
+                    {href ? (
+                      <Link href={href} className="text-indigo-600 hover:text-indigo-800">
+                        {label}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-900">{label}</span>
+                    )}
+                    <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-indigo-500"
+                        style={{ width: `${total > 0 ? (group.count / total) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900">{group.count.toLocaleString()}</td>
+                  {showConversion && <td className="px-4 py-2 text-right text-gray-900">{group.won.toLocaleString()}</td>}
+                  {showConversion && (
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {formatPercent(group.count > 0 ? group.won / group.count : 0)}
+                    </td>
+                  )}
+                  <td className="px-4 py-2 text-right text-gray-900">{formatMoney(group.value)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Lead Trends Panel Component
+ * Dashboard charts of lead flow and conversion over a date range, compared
+ * against the previous period of the same length
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { leadsApi } from '@/lib/api';
+import { addDays } from '@/lib/followups';
+import { STATUS_HEX_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { OPEN_STATUSES, formatPercent } from '@/lib/lead-stats';
+import {
+  DATE_RANGE_PRESET_LABELS,
+  DateRange,
+  DateRangePreset,
+  TREND_INTERVAL_LABELS,
+  alignPreviousPoints,
+  formatCohortLabel,
+  formatPeriodLabel,
+  getDefaultInterval,
+  getPercentChange,
+  getPresetRange,
+  getPreviousRange,
+  parseDateInputValue,
+  toDateInputValue,
+  toTrendsParams,
+} from '@/lib/lead-trends';
+import { LeadStatus, LeadTrends, TrendInterval } from '@/lib/types';
+import { StackedBarChart } from './stacked-bar-chart';
+import { TrendLineChart } from './trend-line-chart';
+
+const PRESETS = Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[];
+const INTERVALS = Object.keys(TREND_INTERVAL_LABELS) as TrendInterval[];
+
+// New is where leads start, so it's already covered by the created chart
+const TRANSITION_STATUSES = Object.values(LeadStatus).filter((status) => status !== LeadStatus.NEW);
+
+const CURRENT_COLOR = '#4f46e5';
+const PREVIOUS_COLOR = '#9ca3af';
+
+const sumTransitions = (trends: LeadTrends | undefined, status: LeadStatus) =>
+  trends?.points.reduce((sum, p) => sum + (p.transitions[status] || 0), 0) || 0;
+
+const sumCreated = (trends: LeadTrends | undefined) => trends?.points.reduce((sum, p) => sum + p.created, 0) || 0;
+
+function ChangeBadge({ current, previous }: { current: number; previous: number }) {
+  const change = getPercentChange(current, previous);
+  if (change === null) return <span className="text-xs text-gray-400">no previous data</span>;
+  return (
+    <span className={`text-xs font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change >= 0 ? '▲' : '▼'} {formatPercent(Math.abs(change))} vs previous
+    </span>
+  );
+}
+
+export function LeadTrendsPanel() {
+  const [preset, setPreset] = useState<DateRangePreset>('30d');
+  const [customStart, setCustomStart] = useState(() => toDateInputValue(addDays(new Date(), -30)));
+  const [customEnd, setCustomEnd] = useState(() => toDateInputValue(new Date()));
+  const [intervalOverride, setIntervalOverride] = useState<TrendInterval | null>(null);
+  const [compare, setCompare] = useState(true);
+
+  const range = useMemo<DateRange>(() => {
+    if (preset !== 'custom') return getPresetRange(preset);
+    // The custom end date is inclusive
+    return { start: parseDateInputValue(customStart), end: addDays(parseDateInputValue(customEnd), 1) };
+  }, [preset, customStart, customEnd]);
+  const isValidRange = range.end > range.start;
+  const interval = intervalOverride || getDefaultInterval(range);
+
+  const { data: trends, isLoading, error } = useQuery({
+    queryKey: ['leads', 'trends', toTrendsParams(range, interval)],
+    queryFn: () => leadsApi.getLeadTrends(toTrendsParams(range, interval)),
+    enabled: isValidRange,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: previous } = useQuery({
+    queryKey: ['leads', 'trends', toTrendsParams(getPreviousRange(range), interval)],
+    queryFn: () => leadsApi.getLeadTrends(toTrendsParams(getPreviousRange(range), interval)),
+    enabled: isValidRange && compare,
+    placeholderData: keepPreviousData,
+  });
+  const comparison = compare ? previous : undefined;
+
+  const labels = trends?.points.map((p) => formatPeriodLabel(p.period_start, interval)) || [];
+  const previousPoints = trends && comparison ? alignPreviousPoints(trends.points, comparison.points, range, interval) : [];
+  const maxStageDays = Math.max(
+    1,
+    ...(trends?.stage_durations || []).map((d) => d.avg_days),
+    ...(comparison?.stage_durations || []).map((d) => d.avg_days)
+  );
+
+  const kpis = [
+    { label: 'Leads created', current: sumCreated(trends), previous: sumCreated(comparison) },
+    { label: 'Moved to Won', current: sumTransitions(trends, LeadStatus.WON), previous: sumTransitions(comparison, LeadStatus.WON) },
+    { label: 'Moved to Lost', current: sumTransitions(trends, LeadStatus.LOST), previous: sumTransitions(comparison, LeadStatus.LOST) },
+  ];
+
+  return (
+    <div className="space-y-5">
+      {/* Range controls */}
+      <div className="bg-white shadow rounded-lg p-4 flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-medium text-gray-900 mr-auto">Trends</h2>
+        <div className="flex flex-wrap gap-1">
+          {PRESETS.map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => setPreset(p)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                preset === p ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {DATE_RANGE_PRESET_LABELS[p]}
+            </button>
+          ))}
+        </div>
+        {preset === 'custom' && (
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              type="date"
+              value={customStart}
+              max={customEnd}
+              onChange={(e) => e.target.value && setCustomStart(e.target.value)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-2 py-1 border"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={customEnd}
+              min={customStart}
+              onChange={(e) => e.target.value && setCustomEnd(e.target.value)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-2 py-1 border"
+            />
+          </div>
+        )}
+        <select
+          value={intervalOverride || ''}
+          onChange={(e) => setIntervalOverride((e.target.value as TrendInterval) || null)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-2 py-1.5 border"
+        >
+          <option value="">Auto ({TREND_INTERVAL_LABELS[getDefaultInterval(range)]})</option>
+          {INTERVALS.map((i) => (
+            <option key={i} value={i}>
+              {TREND_INTERVAL_LABELS[i]}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={compare}
+            onChange={(e) => setCompare(e.target.checked)}
+            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+          />
+          Compare to previous period
+        </label>
+      </div>
+
+      {!isValidRange ? (
+        <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-red-600">The start date must be before the end date.</div>
+      ) : isLoading ? (
+        <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-gray-500">Loading trends...</div>
+      ) : error || !trends ? (
+        <div className="bg-white shadow rounded-lg px-4 py-6 text-sm text-red-600">Failed to load trends.</div>
+      ) : (
+        <>
+          {/* Totals for the range */}
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+            {kpis.map((kpi) => (
+              <div key={kpi.label} className="bg-white shadow rounded-lg p-5">
+                <dt className="text-sm font-medium text-gray-500">{kpi.label}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{kpi.current.toLocaleString()}</dd>
+                {comparison && <ChangeBadge current={kpi.current} previous={kpi.previous} />}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 lg:grid-cols-2">
+            <div className="bg-white shadow rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Leads Created</h3>
+              <TrendLineChart
+                labels={labels}
+                series={[
+                  { name: 'This period', color: CURRENT_COLOR, values: trends.points.map((p) => p.created) },
+                  ...(comparison
+                    ? [
+                        {
+                          name: 'Previous period',
+                          color: PREVIOUS_COLOR,
+                          values: previousPoints.map((p) => p?.created || 0),
+                          labels: previousPoints.map((p) => (p ? formatPeriodLabel(p.period_start, interval) : '')),
+                          dashed: true,
+                        },
+                      ]
+                    : []),
+                ]}
+              />
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Status Transitions</h3>
+              <StackedBarChart
+                labels={labels}
+                series={TRANSITION_STATUSES.map((status) => ({
+                  name: STATUS_LABELS[status],
+                  color: STATUS_HEX_COLORS[status],
+                  values: trends.points.map((p) => p.transitions[status] || 0),
+                }))}
+              />
+            </div>
+
+            {/* Cohorts */}
+            <div className="bg-white shadow rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Win / Loss by Created Month</h3>
+              {trends.cohorts.length === 0 ? (
+                <p className="text-sm text-gray-500">No leads created in this range.</p>
+              ) : (
+                <div className="space-y-2">
+                  {trends.cohorts.map((cohort) => {
+                    const share = (value: number) => (cohort.created > 0 ? (value / cohort.created) * 100 : 0);
+                    const closed = cohort.won + cohort.lost;
+                    return (
+                      <div key={cohort.month} className="text-sm">
+                        <div className="flex justify-between text-gray-700">
+                          <span>
+                            {formatCohortLabel(cohort.month)}{' '}
+                            <span className="text-gray-400">· {cohort.created.toLocaleString()} leads</span>
+                          </span>
+                          <span>
+                            {closed > 0 ? `${formatPercent(cohort.won / closed)} won of closed` : 'none closed yet'}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex h-2.5 rounded-full overflow-hidden bg-gray-100">
+                          <div style={{ width: `${share(cohort.won)}%`, backgroundColor: STATUS_HEX_COLORS.won }} title={`Won: ${cohort.won}`}></div>
+                          <div style={{ width: `${share(cohort.lost)}%`, backgroundColor: STATUS_HEX_COLORS.lost }} title={`Lost: ${cohort.lost}`}></div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-gray-500">Green: won, red: lost, gray: still open.</p>
+                </div>
+              )}
+            </div>
+
+            {/* Time in stage */}
+            <div className="bg-white shadow rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Average Time in Stage</h3>
+              <div className="space-y-3">
+                {OPEN_STATUSES.map((status) => {
+                  const current = trends.stage_durations.find((d) => d.status === status);
+                  const before = comparison?.stage_durations.find((d) => d.status === status);
+                  return (
+                    <div key={status} className="text-sm">
+                      <div className="flex justify-between text-gray-700">
+                        <span>{STATUS_LABELS[status]}</span>
+                        <span>
+                          {current ? `${current.avg_days.toFixed(1)} days` : '—'}
+                          {current && <span className="text-gray-400"> · {current.sample_size.toLocaleString()} leads</span>}
+                          {before && <span className="text-gray-400"> (was {before.avg_days.toFixed(1)})</span>}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                        <div
+                          className="h-full"
+                          style={{ width: `${((current?.avg_days || 0) / maxStageDays) * 100}%`, backgroundColor: STATUS_HEX_COLORS[status] }}
+                        ></div>
+                      </div>
+                      {before && (
+                        <div className="mt-0.5 h-1 rounded-full bg-gray-100 overflow-hidden">
+                          <div className="h-full bg-gray-400" style={{ width: `${(before.avg_days / maxStageDays) * 100}%` }}></div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Stacked Bar Chart Component
+ * SVG bars per period, stacked by series (e.g. status transitions)
+ */
+
+'use client';
+
+import {
+  CHART_HEIGHT,
+  CHART_PADDING,
+  CHART_WIDTH,
+  ChartAxes,
+  ChartLegend,
+  ChartSeries,
+  getNiceMax,
+} from './trend-line-chart';
+
+interface StackedBarChartProps {
+  labels: string[];
+  series: ChartSeries[];
+}
+
+export function StackedBarChart({ labels, series }: StackedBarChartProps) {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const totals = labels.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] || 0), 0));
+  const max = getNiceMax(Math.max(0, ...totals));
+  const slot = plotWidth / Math.max(labels.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+        <ChartAxes labels={labels} max={max} />
+        {labels.map((label, i) => {
+          let offset = 0;
+          return (
+            <g key={i}>
+              {series.map((s) => {
+                const value = s.values[i] || 0;
+                if (value === 0) return null;
+                const height = (value / max) * plotHeight;
+                offset += height;
+                return (
+                  <rect
+                    key={s.name}
+                    x={CHART_PADDING.left + i * slot + (slot - barWidth) / 2}
+                    y={CHART_PADDING.top + plotHeight - offset}
+                    width={barWidth}
+                    height={height}
+                    fill={s.color}
+                  >
+                    <title>{`${s.name} · ${label}: ${value.toLocaleString()}`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+}
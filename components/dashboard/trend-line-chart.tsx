@@ -0,0 +1,120 @@
+/**
+ * Trend Line Chart Component
+ * Lightweight SVG line chart; a dashed series is used for the previous period
+ */
+
+'use client';
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+  dashed?: boolean;
+  labels?: string[]; // Tooltip labels when they differ from the axis, e.g. the previous period's dates
+}
+
+interface TrendLineChartProps {
+  labels: string[];
+  series: ChartSeries[];
+}
+
+export const CHART_WIDTH = 640;
+export const CHART_HEIGHT = 220;
+export const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+const MAX_X_LABELS = 8;
+
+// Round the axis maximum up to 1, 2 or 5 times a power of ten
+export const getNiceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return ([1, 2, 5, 10].find((step) => step * magnitude >= value) || 10) * magnitude;
+};
+
+// Axis, gridlines and sparse x labels shared by the dashboard charts
+export function ChartAxes({ labels, max }: { labels: string[]; max: number }) {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const labelStep = Math.ceil(labels.length / MAX_X_LABELS);
+
+  return (
+    <g className="text-gray-400" fontSize="10" fill="currentColor">
+      {[0, 0.5, 1].map((share) => {
+        const y = CHART_PADDING.top + plotHeight * (1 - share);
+        return (
+          <g key={share}>
+            <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={CHART_PADDING.left - 6} y={y + 3} textAnchor="end">
+              {(max * share).toLocaleString()}
+            </text>
+          </g>
+        );
+      })}
+      {labels.map((label, i) =>
+        i % labelStep === 0 ? (
+          <text
+            key={i}
+            x={CHART_PADDING.left + ((i + 0.5) * plotWidth) / labels.length}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+          >
+            {label}
+          </text>
+        ) : null
+      )}
+    </g>
+  );
+}
+
+export function ChartLegend({ series }: { series: Array<Pick<ChartSeries, 'name' | 'color' | 'dashed'>> }) {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+      {series.map((s) => (
+        <span key={s.name} className="inline-flex items-center gap-1">
+          <span
+            className="inline-block w-4 h-0.5"
+            style={{ borderTop: `2px ${s.dashed ? 'dashed' : 'solid'} ${s.color}` }}
+          ></span>
+          {s.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function TrendLineChart({ labels, series }: TrendLineChartProps) {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const max = getNiceMax(Math.max(0, ...series.flatMap((s) => s.values)));
+
+  // Points sit in the middle of their bucket, lining up with bar charts
+  const x = (i: number) => CHART_PADDING.left + ((i + 0.5) * plotWidth) / Math.max(labels.length, 1);
+  const y = (value: number) => CHART_PADDING.top + plotHeight * (1 - value / max);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+        <ChartAxes labels={labels} max={max} />
+        {series.map((s) => {
+          const values = s.values.slice(0, labels.length);
+          return (
+            <g key={s.name}>
+              <polyline
+                points={values.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                strokeDasharray={s.dashed ? '5 4' : undefined}
+              />
+              {values.map((value, i) => (
+                <circle key={i} cx={x(i)} cy={y(value)} r={3} fill={s.color}>
+                  <title>{`${s.name} · ${(s.labels || labels)[i] || '—'}: ${value.toLocaleString()}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+}
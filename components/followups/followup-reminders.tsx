@@ -0,0 +1,79 @@
+/**
+ * Follow-up Reminders Component
+ * Polls for follow-ups assigned to the user that have come due, plus unassigned
+ * ones for managers since nobody else would hear about them, and announces
+ * each one once with a toast
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { leadsApi } from '@/lib/api';
+import { formatFollowupTime } from '@/lib/followups';
+import { useCanManage } from '@/lib/store/auth';
+import { useFollowupRemindersStore } from '@/lib/store/followup-reminders';
+import { showToast } from '@/lib/store/toasts';
+import { Lead, LeadListParams } from '@/lib/types';
+
+const POLL_INTERVAL = 60000;
+const REMINDER_DURATION = 30000;
+// Above this many at once, one summary toast replaces the individual ones
+const MAX_INDIVIDUAL_REMINDERS = 3;
+
+const reminderKey = (lead: Lead) => `${lead.id}:${lead.next_followup_date}`;
+
+export function FollowupReminders() {
+  const router = useRouter();
+  const remindedKeys = useFollowupRemindersStore((state) => state.remindedKeys);
+  const markReminded = useFollowupRemindersStore((state) => state.markReminded);
+  const canManage = useCanManage();
+
+  const { data } = useQuery({
+    queryKey: ['leads', 'followups', 'reminders', canManage],
+    queryFn: async () => {
+      const params: LeadListParams = {
+        followup_before: new Date().toISOString(),
+        page_size: 50,
+        sort_by: 'next_followup_date',
+        sort_order: 'desc',
+      };
+      const [mine, unassigned] = await Promise.all([
+        leadsApi.listLeads({ ...params, assigned_to_me: true }),
+        canManage ? leadsApi.listLeads({ ...params, unassigned: true }) : null,
+      ]);
+      return [...mine.items, ...(unassigned?.items || [])];
+    },
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  useEffect(() => {
+    const due = (data || []).filter(
+      (lead) => lead.next_followup_date && !remindedKeys.includes(reminderKey(lead))
+    );
+    if (due.length === 0) return;
+
+    markReminded(due.map(reminderKey));
+
+    if (due.length > MAX_INDIVIDUAL_REMINDERS) {
+      showToast({
+        message: `${due.length} follow-ups are due`,
+        duration: REMINDER_DURATION,
+        action: { label: 'View', onClick: () => router.push('/dashboard/followups') },
+      });
+      return;
+    }
+    due.forEach((lead) =>
+      showToast({
+        message: `${lead.assigned_to_id ? 'Follow-up' : 'Unassigned follow-up'} due: ${lead.name} (${formatFollowupTime(
+          lead.next_followup_date!
+        )})`,
+        duration: REMINDER_DURATION,
+        action: { label: 'Open', onClick: () => router.push(`/dashboard/leads/${lead.id}`) },
+      })
+    );
+  }, [data, remindedKeys, markReminded, router]);
+
+  return null;
+}
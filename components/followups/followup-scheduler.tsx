@@ -0,0 +1,131 @@
+/**
+ * Follow-up Scheduler Component
+ * Sets a lead's next follow-up and records contacts made
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import {
+  FOLLOWUP_BUCKET_COLORS,
+  FOLLOWUP_BUCKET_LABELS,
+  FOLLOWUP_PRESETS,
+  getFollowupBucket,
+  markContactedChanges,
+  toDateTimeLocalValue,
+} from '@/lib/followups';
+import { Lead } from '@/lib/types';
+
+export function FollowupScheduler({ lead }: { lead: Lead }) {
+  const queryClient = useQueryClient();
+  // Local datetime string from the picker; null while it matches the saved value
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: Partial<Lead>) => leadsApi.updateLead(lead.id, changes, 'detail_page'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead', lead.id] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      setDraft(null);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to update follow-up')}`);
+    },
+  });
+
+  const pickerValue = draft ?? toDateTimeLocalValue(lead.next_followup_date);
+  const bucket = lead.next_followup_date ? getFollowupBucket(lead.next_followup_date) : null;
+
+  const handleSave = () => {
+    if (!draft) return;
+    updateMutation.mutate({ next_followup_date: new Date(draft).toISOString() });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-2">⏰ Follow-up</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-sm font-medium text-gray-500 mb-1">Next Follow-up</p>
+          {lead.next_followup_date ? (
+            <p className="text-gray-900 font-medium">
+              {new Date(lead.next_followup_date).toLocaleString()}
+              {bucket && (
+                <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${FOLLOWUP_BUCKET_COLORS[bucket]}`}>
+                  {FOLLOWUP_BUCKET_LABELS[bucket]}
+                </span>
+              )}
+            </p>
+          ) : (
+            <p className="text-gray-400 font-medium">Not scheduled</p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500 mb-1">Last Contact</p>
+          <p className="text-gray-900 font-medium">
+            {lead.last_contact_date ? new Date(lead.last_contact_date).toLocaleString() : '-'}
+          </p>
+        </div>
+      </div>
+
+      {/* Picker and presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          value={pickerValue}
+          onChange={(e) => setDraft(e.target.value)}
+          className="px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        {FOLLOWUP_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => setDraft(toDateTimeLocalValue(preset.apply(new Date()).toISOString()))}
+            className="px-2.5 py-1 text-xs font-medium rounded-full border border-indigo-200 text-indigo-700 hover:bg-indigo-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!draft || updateMutation.isPending}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {updateMutation.isPending ? 'Saving...' : 'Schedule Follow-up'}
+        </button>
+        {draft !== null && (
+          <button type="button" onClick={() => setDraft(null)} className="text-sm font-medium text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        )}
+        <div className="flex-1"></div>
+        <button
+          type="button"
+          onClick={() => updateMutation.mutate(markContactedChanges(lead, false))}
+          disabled={updateMutation.isPending}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Log Contact Now
+        </button>
+        {lead.next_followup_date && (
+          <button
+            type="button"
+            onClick={() => updateMutation.mutate(markContactedChanges(lead, true))}
+            disabled={updateMutation.isPending}
+            title="Log a contact now and clear the scheduled follow-up"
+            className="inline-flex items-center px-3 py-2 border border-green-300 shadow-sm text-sm font-medium rounded-md text-green-700 bg-white hover:bg-green-50 disabled:opacity-50"
+          >
+            Follow-up Done
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Import Job Progress Component
+ * Progress bar and row counts for a background import job
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { getApiErrorMessage } from '@/lib/api';
+import { downloadImportErrors, importJobPercent, isImportJobFinished } from '@/lib/import-jobs';
+import { ImportJob, ImportJobStatus } from '@/lib/types';
+
+export const IMPORT_JOB_STATUS_COLORS: Record<ImportJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  processing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+interface ImportJobProgressProps {
+  job: ImportJob;
+  compact?: boolean;
+}
+
+export function ImportJobProgress({ job, compact = false }: ImportJobProgressProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const percent = isImportJobFinished(job) ? 100 : importJobPercent(job);
+
+  const handleDownloadErrors = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadImportErrors(job);
+    } catch (error) {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to download error report')}`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const stats = [
+    { label: 'Processed', value: `${job.processed_rows.toLocaleString()} / ${job.total_rows.toLocaleString()}`, color: 'text-gray-900' },
+    { label: 'Created', value: job.created.toLocaleString(), color: 'text-green-600' },
+    { label: 'Skipped', value: job.skipped.toLocaleString(), color: 'text-yellow-600' },
+    { label: 'Failed', value: job.failed.toLocaleString(), color: 'text-red-600' },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span className={`inline-flex px-2 py-0.5 font-semibold rounded-full ${IMPORT_JOB_STATUS_COLORS[job.status]}`}>
+          {job.status}
+        </span>
+        {!isImportJobFinished(job) && <span>{percent}%</span>}
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all ${job.status === ImportJobStatus.FAILED ? 'bg-red-500' : 'bg-indigo-600'}`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+
+      {job.message && <p className="text-xs text-red-700">{job.message}</p>}
+
+      <dl className={`grid grid-cols-4 gap-2 ${compact ? 'text-xs' : 'text-sm'}`}>
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <dt className="text-gray-500">{stat.label}</dt>
+            <dd className={`font-semibold ${stat.color}`}>{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {job.failed > 0 && isImportJobFinished(job) && (
+        <button
+          type="button"
+          onClick={handleDownloadErrors}
+          disabled={isDownloading}
+          className="text-xs text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+        >
+          {isDownloading ? 'Downloading...' : '⬇ Download error report (CSV)'}
+        </button>
+      )}
+    </div>
+  );
+}
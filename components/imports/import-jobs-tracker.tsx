@@ -0,0 +1,75 @@
+/**
+ * Import Jobs Tracker Component
+ * Floating panel in the dashboard showing imports started from this browser
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useQueryClient } from '@tanstack/react-query';
+import { isImportJobFinished, useImportJob } from '@/lib/import-jobs';
+import { useImportJobsStore } from '@/lib/store/import-jobs';
+import { ImportJobProgress } from './import-job-progress';
+
+function TrackedImportJob({ jobId }: { jobId: number }) {
+  const queryClient = useQueryClient();
+  const dismissJob = useImportJobsStore((state) => state.dismissJob);
+  const { data: job, error } = useImportJob(jobId);
+  const isFinished = !!job && isImportJobFinished(job);
+
+  // Newly imported leads show up in every list once the job is done
+  useEffect(() => {
+    if (isFinished) {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['import-jobs'] });
+    }
+  }, [isFinished, queryClient]);
+
+  return (
+    <div className="p-3 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-900 truncate" title={job?.file_name}>
+          {job?.file_name || `Import #${jobId}`}
+        </p>
+        <button
+          type="button"
+          onClick={() => dismissJob(jobId)}
+          className="ml-2 text-gray-400 hover:text-gray-600"
+          title={isFinished ? 'Dismiss' : 'Hide (the import keeps running)'}
+        >
+          ✕
+        </button>
+      </div>
+      {job ? (
+        <ImportJobProgress job={job} compact />
+      ) : error ? (
+        <p className="text-xs text-red-600">Could not load import status</p>
+      ) : (
+        <p className="text-xs text-gray-500">Loading...</p>
+      )}
+    </div>
+  );
+}
+
+export function ImportJobsTracker() {
+  const trackedJobIds = useImportJobsStore((state) => state.trackedJobIds);
+
+  if (trackedJobIds.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-white rounded-lg shadow-xl border border-gray-200">
+      <div className="flex items-center justify-between px-3 py-2 bg-indigo-600 rounded-t-lg">
+        <span className="text-sm font-semibold text-white">Imports</span>
+        <Link href="/dashboard/imports" className="text-xs text-indigo-100 hover:text-white">
+          View history
+        </Link>
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {trackedJobIds.map((jobId) => (
+          <TrackedImportJob key={jobId} jobId={jobId} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Assignee Select Component
+ * Picks an approved user to own a lead
+ */
+
+'use client';
+
+import { useAssignableUsers } from '@/lib/assignment';
+
+interface AssigneeSelectProps {
+  value: number | null;
+  onChange: (userId: number | null) => void;
+  // Name to show when the current assignee is no longer an active user
+  currentName?: string;
+  unassignedLabel?: string;
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function AssigneeSelect({
+  value,
+  onChange,
+  currentName,
+  unassignedLabel = 'Unassigned',
+  id,
+  disabled,
+  className = 'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm',
+}: AssigneeSelectProps) {
+  const { data: users, isLoading } = useAssignableUsers();
+  const isFormerUser = value !== null && !!users && !users.some((u) => u.id === value);
+
+  return (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      disabled={disabled || isLoading}
+      className={className}
+    >
+      <option value="">{isLoading ? 'Loading users...' : unassignedLabel}</option>
+      {isFormerUser && <option value={value}>{currentName || `User #${value}`} (inactive)</option>}
+      {users?.map((user) => (
+        <option key={user.id} value={user.id}>
+          {user.name}
+        </option>
+      ))}
+    </select>
+  );
+}
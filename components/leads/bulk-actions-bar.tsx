@@ -0,0 +1,242 @@
+/**
+ * Bulk Actions Bar Component
+ * Applies status, priority, assignment, tag, delete and export actions to a
+ * selection of leads and reports per-lead results
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { PRIORITY_LABELS, STATUS_LABELS } from '@/lib/lead-fields';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { BulkOperationResponse, Lead, LeadBulkChanges, LeadSelection, LeadStatus } from '@/lib/types';
+import { AssigneeSelect } from './assignee-select';
+import { ExportLeadsModal } from './export-leads-modal';
+
+interface BulkActionsBarProps {
+  selection: LeadSelection;
+  selectedCount: number;
+  selectedLeads: Lead[]; // Only populated for explicit (checkbox) selections
+  onClear: () => void;
+}
+
+type BulkAction = 'status' | 'priority' | 'assign' | 'add_tags' | 'remove_tags';
+
+const parseTags = (value: string) =>
+  value.split(',').map((t) => t.trim()).filter(Boolean);
+
+export function BulkActionsBar({ selection, selectedCount, selectedLeads, onClear }: BulkActionsBarProps) {
+  const queryClient = useQueryClient();
+  const { offerDeleteUndo, offerStatusUndo } = useLeadUndo();
+  const [action, setAction] = useState<BulkAction>('status');
+  const [status, setStatus] = useState<LeadStatus>(LeadStatus.CONTACTED);
+  const [priority, setPriority] = useState(3);
+  const [assigneeId, setAssigneeId] = useState<number | null>(null);
+  const [tags, setTags] = useState('');
+  const [result, setResult] = useState<{ label: string; response: BulkOperationResponse } | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const handleResult = (label: string, response: BulkOperationResponse) => {
+    queryClient.invalidateQueries({ queryKey: ['leads'] });
+    setResult({ label, response });
+    // Keep the selection when some leads failed so they can be retried
+    if (response.failed === 0) onClear();
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: LeadBulkChanges) => leadsApi.bulkUpdateLeads(selection, changes),
+    onSuccess: (response, changes) => {
+      handleResult('Updated', response);
+      if (changes.status) {
+        offerStatusUndo(
+          response.results.flatMap((r) =>
+            r.success && r.previous_status && r.previous_status !== changes.status
+              ? [{ lead_id: r.lead_id, previous_status: r.previous_status }]
+              : []
+          ),
+          `Changed ${response.succeeded.toLocaleString()} leads to ${STATUS_LABELS[changes.status]}`
+        );
+      }
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Bulk update failed')}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => leadsApi.bulkDeleteLeads(selection),
+    onSuccess: (response) => {
+      handleResult('Deleted', response);
+      offerDeleteUndo(
+        response.results.filter((r) => r.success).map((r) => r.lead_id),
+        `Moved ${response.succeeded.toLocaleString()} leads to trash`
+      );
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Bulk delete failed')}`);
+    },
+  });
+
+  const handleApply = () => {
+    const changes: LeadBulkChanges = {};
+    if (action === 'status') changes.status = status;
+    if (action === 'priority') changes.priority = priority;
+    if (action === 'assign') changes.assigned_to_id = assigneeId;
+    if (action === 'add_tags') changes.add_tags = parseTags(tags);
+    if (action === 'remove_tags') changes.remove_tags = parseTags(tags);
+
+    if ((action === 'add_tags' || action === 'remove_tags') && parseTags(tags).length === 0) return;
+    updateMutation.mutate(changes);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Move ${selectedCount} lead${selectedCount === 1 ? '' : 's'} to trash?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const isPending = updateMutation.isPending || deleteMutation.isPending;
+  const failures = result?.response.results.filter((r) => !r.success) || [];
+
+  // Stay mounted after the selection is cleared so the last result remains visible
+  if (selectedCount === 0 && !result) return null;
+
+  return (
+    <div className="bg-indigo-50 border-2 border-indigo-200 rounded-lg p-4 space-y-3">
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-semibold text-indigo-900">
+            {selectedCount.toLocaleString()} selected
+          </span>
+
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as BulkAction)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="status">Change status</option>
+            <option value="priority">Set priority</option>
+            <option value="assign">Assign to</option>
+            <option value="add_tags">Add tags</option>
+            <option value="remove_tags">Remove tags</option>
+          </select>
+
+          {action === 'status' && (
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as LeadStatus)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {Object.values(LeadStatus).map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          )}
+
+          {action === 'priority' && (
+            <select
+              value={priority}
+              onChange={(e) => setPriority(Number(e.target.value))}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          )}
+
+          {action === 'assign' && (
+            <AssigneeSelect value={assigneeId} onChange={setAssigneeId} unassignedLabel="Nobody (unassign)" />
+          )}
+
+          {(action === 'add_tags' || action === 'remove_tags') && (
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Comma-separated tags"
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          )}
+
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isPending}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {updateMutation.isPending ? 'Applying...' : 'Apply'}
+          </button>
+
+          <div className="flex-1"></div>
+
+          <button
+            type="button"
+            onClick={() => setIsExportOpen(true)}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Export
+          </button>
+          {selection.lead_ids && (
+            <Link
+              href={`/dashboard/route?ids=${selection.lead_ids.join(',')}`}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Plan route
+            </Link>
+          )}
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isPending}
+            className="inline-flex items-center px-3 py-1.5 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+          >
+            {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+          </button>
+          <button type="button" onClick={onClear} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Per-lead results of the last operation */}
+      {result && (
+        <div className={`rounded-md p-3 text-sm ${failures.length ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'}`}>
+          <div className="flex items-center justify-between">
+            <p className={failures.length ? 'text-yellow-900' : 'text-green-800'}>
+              {result.label} {result.response.succeeded} of {result.response.total} leads
+              {failures.length > 0 && `, ${failures.length} failed`}
+            </p>
+            <button type="button" onClick={() => setResult(null)} className="text-gray-500 hover:text-gray-700">
+              ✕
+            </button>
+          </div>
+          {failures.length > 0 && (
+            <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-yellow-800 space-y-1">
+              {failures.map((failure) => (
+                <li key={failure.lead_id}>
+                  <Link href={`/dashboard/leads/${failure.lead_id}`} className="font-semibold underline">
+                    {failure.lead_name || `Lead #${failure.lead_id}`}
+                  </Link>
+                  : {failure.error || 'Unknown error'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {isExportOpen && (
+        <ExportLeadsModal
+          leads={selection.filters ? undefined : selectedLeads}
+          params={selection.filters}
+          count={selectedCount}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Column Chooser Component
+ * Lets a user pick and order the columns shown in the leads table
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { LEAD_COLUMNS } from './lead-columns';
+
+interface ColumnChooserProps {
+  columns: string[];
+  onChange: (columns: string[]) => void;
+  onReset: () => void;
+}
+
+export function ColumnChooser({ columns, onChange, onReset }: ColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleColumn = (id: string) => {
+    if (columns.includes(id)) {
+      // Keep at least one column visible
+      if (columns.length > 1) {
+        onChange(columns.filter((c) => c !== id));
+      }
+    } else {
+      onChange([...columns, id]);
+    }
+  };
+
+  const moveColumn = (id: string, offset: -1 | 1) => {
+    const index = columns.indexOf(id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= columns.length) return;
+
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+      >
+        <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+        Columns ({columns.length})
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} aria-hidden="true"></div>
+          <div className="absolute right-0 z-20 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200">
+            {/* Visible columns in display order */}
+            <div className="p-3 border-b border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs font-semibold text-gray-500 uppercase">Visible Columns</h4>
+                <button
+                  type="button"
+                  onClick={onReset}
+                  className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  Reset to default
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {columns.map((id, index) => {
+                  const column = LEAD_COLUMNS.find((c) => c.id === id);
+                  if (!column) return null;
+                  return (
+                    <li key={id} className="flex items-center justify-between text-sm text-gray-700">
+                      <span>{column.label}</span>
+                      <div className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(id, -1)}
+                          disabled={index === 0}
+                          className="px-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          title="Move left"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(id, 1)}
+                          disabled={index === columns.length - 1}
+                          className="px-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          title="Move right"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => toggleColumn(id)}
+                          disabled={columns.length === 1}
+                          className="px-1.5 text-red-500 hover:text-red-700 disabled:opacity-30"
+                          title="Hide column"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            {/* All available columns */}
+            <div className="p-3 max-h-72 overflow-y-auto">
+              <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">All Fields</h4>
+              <div className="space-y-1">
+                {LEAD_COLUMNS.map((column) => (
+                  <label key={column.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.id)}
+                      onChange={() => toggleColumn(column.id)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {column.label}
+                    {column.sortField && <span className="text-xs text-gray-400">(sortable)</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Duplicate Group Card Component
+ * Reviews one group of likely duplicates and merges it into a chosen keeper
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { getDefaultWinners } from '@/lib/lead-merge';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { DuplicateGroup, DuplicateMatchType, Lead, LeadMergeResult } from '@/lib/types';
+import { LeadMergeSummary, LeadMergeTable } from './lead-merge-table';
+
+export const DUPLICATE_MATCH_LABELS: Record<DuplicateMatchType, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name_address: 'Same name & address',
+};
+
+// Oldest lead is the default keeper, since other records usually point at it
+const pickDefaultKeeper = (leads: Lead[]) =>
+  [...leads].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())[0].id;
+
+export function DuplicateGroupCard({ group }: { group: DuplicateGroup }) {
+  const queryClient = useQueryClient();
+  const { offerDeleteUndo } = useLeadUndo();
+  const [keeperId, setKeeperId] = useState(() => pickDefaultKeeper(group.leads));
+  const [includedIds, setIncludedIds] = useState(() => group.leads.map((lead) => lead.id));
+  const [winners, setWinners] = useState(() => getDefaultWinners(group.leads, keeperId));
+  const [result, setResult] = useState<LeadMergeResult | null>(null);
+
+  const includedLeads = group.leads.filter((lead) => includedIds.includes(lead.id));
+  const mergedIds = includedIds.filter((id) => id !== keeperId);
+
+  // Winners are recomputed whenever the set of leads or the keeper changes
+  const resetSelection = (nextKeeperId: number, nextIncludedIds: number[]) => {
+    setKeeperId(nextKeeperId);
+    setIncludedIds(nextIncludedIds);
+    setWinners(getDefaultWinners(group.leads.filter((lead) => nextIncludedIds.includes(lead.id)), nextKeeperId));
+    setResult(null);
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      leadsApi.mergeLeads({
+        keeper_id: keeperId,
+        merged_ids: mergedIds,
+        fields: winners,
+        source: 'duplicate_review',
+        dry_run: dryRun,
+      }),
+    onSuccess: (mergeResult) => {
+      setResult(mergeResult);
+      if (!mergeResult.dry_run) {
+        queryClient.invalidateQueries({ queryKey: ['leads'] });
+        offerDeleteUndo(
+          mergeResult.removed_ids,
+          `Merged ${mergeResult.removed_ids.length} lead${mergeResult.removed_ids.length === 1 ? '' : 's'} into #${mergeResult.keeper.id}`
+        );
+      }
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to merge leads')}`);
+    },
+  });
+
+  const handleMerge = () => {
+    if (confirm(`Merge ${mergedIds.length} lead${mergedIds.length === 1 ? '' : 's'} into #${keeperId}?\n\nThe merged leads will be moved to trash. Undo restores them, but their notes, chat sessions, activities and the fields picked for #${keeperId} stay on #${keeperId}.`)) {
+      mergeMutation.mutate(false);
+    }
+  };
+
+  const isMerged = !!result && !result.dry_run;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+            {DUPLICATE_MATCH_LABELS[group.match_type]}
+          </span>
+          <span className="ml-2 text-sm font-medium text-gray-900">{group.match_value}</span>
+          <span className="ml-2 text-sm text-gray-500">· {group.leads.length} leads</span>
+        </div>
+        {!isMerged && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => mergeMutation.mutate(true)}
+              disabled={mergeMutation.isPending || mergedIds.length === 0}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Preview (dry run)
+            </button>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={mergeMutation.isPending || mergedIds.length === 0}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {mergeMutation.isPending && mergeMutation.variables === false ? 'Merging...' : `Merge ${mergedIds.length} into #${keeperId}`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <div className="p-4 border-b border-gray-200">
+          <LeadMergeSummary result={result} />
+        </div>
+      )}
+
+      {!isMerged && (
+        <LeadMergeTable
+          leads={group.leads}
+          keeperId={keeperId}
+          onKeeperChange={(leadId) => resetSelection(leadId, includedIds)}
+          winners={winners}
+          onWinnerChange={(field, leadId) => {
+            setWinners({ ...winners, [field]: leadId });
+            setResult(null);
+          }}
+          includedIds={includedIds}
+          onIncludedChange={(leadId, included) =>
+            resetSelection(keeperId, included ? [...includedIds, leadId] : includedIds.filter((id) => id !== leadId))
+          }
+          disabled={mergeMutation.isPending}
+        />
+      )}
+
+      {includedLeads.length < group.leads.length && !isMerged && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-200">
+          Leads not marked &quot;Merge in&quot; are left untouched.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * Export Leads Modal Component
+ * Exports a lead set to CSV or XLSX with a chosen set of fields
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { getApiErrorMessage } from '@/lib/api';
+import { ALL_EXPORT_FIELDS, ExportFormat, downloadLeadsExport, fetchAllLeads } from '@/lib/lead-export';
+import { LEAD_FIELDS, LEAD_FIELD_GROUP_LABELS, LeadFieldGroup } from '@/lib/lead-fields';
+import { useUser } from '@/lib/store/auth';
+import { usePreferencesStore } from '@/lib/store/preferences';
+import { Lead, LeadListParams } from '@/lib/types';
+
+interface ExportLeadsModalProps {
+  // Either already-loaded leads (an explicit selection) or a filter to fetch every match of
+  leads?: Lead[];
+  params?: LeadListParams;
+  count: number;
+  onClose: () => void;
+}
+
+const FIELD_GROUPS = Object.keys(LEAD_FIELD_GROUP_LABELS) as LeadFieldGroup[];
+
+export function ExportLeadsModal({ leads, params, count, onClose }: ExportLeadsModalProps) {
+  const user = useUser();
+  const savedFields = usePreferencesStore((state) => (user ? state.exportFieldsByUser[user.id] : undefined));
+  const setExportFields = usePreferencesStore((state) => state.setExportFields);
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fields, setFields] = useState<Array<keyof Lead>>(
+    (savedFields as Array<keyof Lead> | undefined) || ALL_EXPORT_FIELDS
+  );
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isExporting = !!progress || isBuilding;
+
+  const toggleField = (key: keyof Lead) => {
+    setFields(fields.includes(key) ? fields.filter((f) => f !== key) : [...fields, key]);
+  };
+
+  const toggleGroup = (group: LeadFieldGroup, checked: boolean) => {
+    const groupKeys = LEAD_FIELDS.filter((f) => f.group === group).map((f) => f.key);
+    const rest = fields.filter((f) => !groupKeys.includes(f));
+    setFields(checked ? [...rest, ...groupKeys] : rest);
+  };
+
+  const handleExport = async () => {
+    // Keep the catalogue order regardless of the order fields were ticked in
+    const orderedFields = ALL_EXPORT_FIELDS.filter((key) => fields.includes(key));
+    if (user) setExportFields(user.id, orderedFields);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: count });
+
+    try {
+      const rows = params
+        ? await fetchAllLeads(params, {
+            signal: controller.signal,
+            onProgress: (loaded, total) => setProgress({ loaded, total }),
+          })
+        : leads || [];
+
+      setProgress(null);
+      setIsBuilding(true);
+      await downloadLeadsExport(rows, orderedFields, format);
+      onClose();
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        alert(`Error: ${getApiErrorMessage(error, 'Export failed')}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setIsBuilding(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const percent = progress && progress.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed z-50 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Center modal vertically */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full relative">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 space-y-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Export {count.toLocaleString()} Lead{count === 1 ? '' : 's'}
+            </h3>
+
+            {/* Format */}
+            <div className="flex gap-6">
+              {(['csv', 'xlsx'] as const).map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="format"
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    disabled={isExporting}
+                    className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {value === 'csv' ? 'CSV (.csv)' : 'Excel (.xlsx)'}
+                </label>
+              ))}
+            </div>
+
+            {/* Fields */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-700">
+                  Fields ({fields.length} of {ALL_EXPORT_FIELDS.length})
+                </h4>
+                <div className="flex gap-3 text-xs font-medium">
+                  <button type="button" onClick={() => setFields(ALL_EXPORT_FIELDS)} className="text-indigo-600 hover:text-indigo-800">
+                    Select all
+                  </button>
+                  <button type="button" onClick={() => setFields([])} className="text-indigo-600 hover:text-indigo-800">
+                    Select none
+                  </button>
+                </div>
+              </div>
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-4">
+                {FIELD_GROUPS.map((group) => {
+                  const groupFields = LEAD_FIELDS.filter((f) => f.group === group);
+                  const allChecked = groupFields.every((f) => fields.includes(f.key));
+                  return (
+                    <div key={group}>
+                      <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 uppercase mb-1">
+                        <input
+                          type="checkbox"
+                          checked={allChecked}
+                          onChange={(e) => toggleGroup(group, e.target.checked)}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {LEAD_FIELD_GROUP_LABELS[group]}
+                      </label>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 pl-6">
+                        {groupFields.map((field) => (
+                          <label key={field.key} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={fields.includes(field.key)}
+                              onChange={() => toggleField(field.key)}
+                              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {field.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Progress */}
+            {isExporting && (
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>
+                    {isBuilding
+                      ? `Building ${format.toUpperCase()} file...`
+                      : `Fetching leads ${progress!.loaded.toLocaleString()} of ${progress!.total.toLocaleString()}`}
+                  </span>
+                  {!isBuilding && <span>{percent}%</span>}
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-indigo-600 h-2 rounded-full transition-all"
+                    style={{ width: `${isBuilding ? 100 : percent}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting || fields.length === 0 || count === 0}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
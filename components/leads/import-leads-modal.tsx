@@ -0,0 +1,488 @@
+/**
+ * Import Leads Modal Component
+ * Parses a spreadsheet in the browser, previews and validates it, maps its
+ * columns to Lead fields and then starts a background import job with that mapping
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { importJobsApi, importTemplatesApi, getApiErrorMessage } from '@/lib/api';
+import { useImportJob } from '@/lib/import-jobs';
+import { useImportJobsStore } from '@/lib/store/import-jobs';
+import {
+  IMPORTABLE_FIELDS,
+  ParsedSheet,
+  findTemplateForFile,
+  fromImportColumns,
+  guessMapping,
+  parseLeadFile,
+  toImportColumns,
+  validateRows,
+} from '@/lib/lead-import';
+import { LEAD_FIELD_GROUP_LABELS, LeadFieldGroup, getLeadFieldLabel } from '@/lib/lead-fields';
+import { ImportColumnMapping, ImportTemplate, Lead } from '@/lib/types';
+import { ImportJobProgress } from '@/components/imports/import-job-progress';
+
+interface ImportLeadsModalProps {
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 10;
+const FIELD_GROUPS = Object.keys(LEAD_FIELD_GROUP_LABELS) as LeadFieldGroup[];
+
+// Vendor name guessed from a file name like "acme_leads_2024-05.xlsx"
+const vendorFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').split(/[_\-\s]/)[0] || '';
+
+function ImportJobStatus({ jobId }: { jobId: number }) {
+  const { data: job } = useImportJob(jobId);
+  if (!job) return <p className="text-sm text-gray-500">Loading import status...</p>;
+  return <ImportJobProgress job={job} />;
+}
+
+export function ImportLeadsModal({ onClose }: ImportLeadsModalProps) {
+  const queryClient = useQueryClient();
+  const trackJob = useImportJobsStore((state) => state.trackJob);
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [vendor, setVendor] = useState('');
+  const [template, setTemplate] = useState<ImportTemplate | null>(null);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(true);
+  const [templateName, setTemplateName] = useState('');
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [jobId, setJobId] = useState<number | null>(null);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['import-templates'],
+    queryFn: () => importTemplatesApi.listTemplates(),
+  });
+
+  // Validation walks every row, so it only reruns when the file or mapping changes
+  const { issues, invalidRows, issuesByCell } = useMemo(() => {
+    const found = sheet ? validateRows(sheet, mapping) : [];
+    return {
+      issues: found,
+      invalidRows: Array.from(new Set(found.map((issue) => issue.row))),
+      issuesByCell: new Map(found.map((issue) => [`${issue.row}:${issue.header}`, issue])),
+    };
+  }, [sheet, mapping]);
+  const issueAt = (row: number, header: string) => issuesByCell.get(`${row}:${header}`);
+  const mappedHeaders = sheet ? sheet.headers.filter((h) => mapping[h]) : [];
+  const duplicateFields = Object.values(mapping).filter((field, index, all) => all.indexOf(field) !== index);
+
+  const applyTemplate = (next: ImportTemplate | null, parsed: ParsedSheet) => {
+    setTemplate(next);
+    if (next) {
+      setMapping(fromImportColumns(parsed, next.columns));
+      setVendor(next.vendor);
+    } else {
+      setMapping(guessMapping(parsed.headers));
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setFile(selected);
+    setSheet(null);
+    setParseError(null);
+    setIsParsing(true);
+    try {
+      const parsed = await parseLeadFile(selected);
+      setSheet(parsed);
+      setVendor(vendorFromFileName(selected.name));
+      // A known vendor layout is mapped automatically, so the import is one click
+      applyTemplate(findTemplateForFile(templates, selected.name, parsed) || null, parsed);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Could not read this file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateMapping = (header: string, field: keyof Lead | '') => {
+    const next = { ...mapping };
+    if (field) {
+      next[header] = field;
+    } else {
+      delete next[header];
+    }
+    setMapping(next);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      importJobsApi.createJob(file!, {
+        columns: toImportColumns(sheet!, mapping),
+        skip_rows: skipInvalidRows ? invalidRows : undefined,
+        source: vendor.trim() || undefined,
+      }),
+    onSuccess: (job) => {
+      // Tracked jobs keep reporting progress after this modal is closed
+      trackJob(job.id);
+      queryClient.invalidateQueries({ queryKey: ['import-jobs'] });
+      setJobId(job.id);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to start import')}`);
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: (update: boolean) =>
+      update && template
+        ? importTemplatesApi.updateTemplate(template.id, { vendor: vendor.trim(), columns: toImportColumns(sheet!, mapping) })
+        : importTemplatesApi.createTemplate({
+            name: templateName.trim(),
+            vendor: vendor.trim(),
+            columns: toImportColumns(sheet!, mapping),
+          }),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
+      setTemplate(saved);
+      setIsSavingTemplate(false);
+      setTemplateName('');
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save template')}`);
+    },
+  });
+
+  const handleImportClose = () => {
+    if (!importMutation.isPending) onClose();
+  };
+
+  const canImport = !!file && !!sheet && mappedHeaders.length > 0 && duplicateFields.length === 0;
+
+  return (
+    <div className="fixed z-50 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={handleImportClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Center modal vertically */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-5xl sm:w-full relative">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Import Leads</h3>
+
+            {jobId === null ? (
+              <div className="space-y-6">
+                {/* File input */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Select Excel or CSV File (.xlsx or .csv; save .xls files as .xlsx first) *
+                  </label>
+                  <input
+                    type="file"
+                    accept=".xlsx,.xls,.csv"
+                    onChange={handleFileSelect}
+                    disabled={importMutation.isPending}
+                    className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                  />
+                  {file && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
+                      {sheet && ` · ${sheet.rows.length.toLocaleString()} rows, ${sheet.headers.length} columns`}
+                    </p>
+                  )}
+                  {isParsing && <p className="mt-2 text-sm text-gray-500">Reading file...</p>}
+                  {parseError && <p className="mt-2 text-sm text-red-600">{parseError}</p>}
+                </div>
+
+                {sheet && (
+                  <>
+                    {/* Vendor and template */}
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div>
+                        <label htmlFor="importVendor" className="block text-sm font-medium text-gray-700 mb-1">
+                          Vendor (saved as Source)
+                        </label>
+                        <input
+                          id="importVendor"
+                          type="text"
+                          value={vendor}
+                          onChange={(e) => setVendor(e.target.value)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="importTemplate" className="block text-sm font-medium text-gray-700 mb-1">
+                          Mapping Template
+                        </label>
+                        <select
+                          id="importTemplate"
+                          value={template?.id ?? ''}
+                          onChange={(e) =>
+                            applyTemplate(templates.find((t) => t.id === Number(e.target.value)) || null, sheet)
+                          }
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          <option value="">Auto-detect from headers</option>
+                          {templates.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name} ({t.vendor})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {template && (
+                      <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+                        Using the <strong>{template.name}</strong> template for {template.vendor}. Review the preview
+                        below or import right away.
+                      </div>
+                    )}
+
+                    {/* Column mapping */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-semibold text-gray-700">
+                          Column Mapping ({mappedHeaders.length} of {sheet.headers.length} columns mapped)
+                        </h4>
+                        <div className="flex items-center gap-3 text-sm">
+                          {template && (
+                            <button
+                              type="button"
+                              onClick={() => saveTemplateMutation.mutate(true)}
+                              disabled={saveTemplateMutation.isPending}
+                              className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                            >
+                              Update &quot;{template.name}&quot;
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => setIsSavingTemplate(!isSavingTemplate)}
+                            className="text-indigo-600 hover:text-indigo-800 font-medium"
+                          >
+                            💾 Save as Template
+                          </button>
+                        </div>
+                      </div>
+
+                      {isSavingTemplate && (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            if (templateName.trim() && vendor.trim()) saveTemplateMutation.mutate(false);
+                          }}
+                          className="flex flex-wrap items-center gap-3 mb-3"
+                        >
+                          <input
+                            type="text"
+                            required
+                            autoFocus
+                            value={templateName}
+                            onChange={(e) => setTemplateName(e.target.value)}
+                            placeholder="Template name, e.g. Acme monthly list"
+                            className="flex-1 min-w-[200px] rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                          <button
+                            type="submit"
+                            disabled={!templateName.trim() || !vendor.trim() || saveTemplateMutation.isPending}
+                            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            {saveTemplateMutation.isPending ? 'Saving...' : 'Save'}
+                          </button>
+                          {!vendor.trim() && <span className="text-xs text-red-600">Enter a vendor first</span>}
+                        </form>
+                      )}
+
+                      <div className="border border-gray-200 rounded-md max-h-64 overflow-y-auto">
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sheet Column</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sample</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lead Field</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {sheet.headers.map((header, index) => (
+                              <tr key={header}>
+                                <td className="px-3 py-1.5 font-medium text-gray-900">{header}</td>
+                                <td className="px-3 py-1.5 text-gray-500 truncate max-w-[200px]">
+                                  {sheet.rows.find((row) => row.cells[index]?.trim())?.cells[index] || '-'}
+                                </td>
+                                <td className="px-3 py-1.5">
+                                  <select
+                                    value={mapping[header] || ''}
+                                    onChange={(e) => updateMapping(header, e.target.value as keyof Lead | '')}
+                                    className={`block w-full rounded-md shadow-sm sm:text-sm ${
+                                      mapping[header] && duplicateFields.includes(mapping[header])
+                                        ? 'border-red-400'
+                                        : 'border-gray-300'
+                                    }`}
+                                  >
+                                    <option value="">— Skip column —</option>
+                                    {FIELD_GROUPS.map((group) => (
+                                      <optgroup key={group} label={LEAD_FIELD_GROUP_LABELS[group]}>
+                                        {IMPORTABLE_FIELDS.filter((f) => f.group === group).map((field) => (
+                                          <option key={field.key} value={field.key}>
+                                            {field.label}
+                                          </option>
+                                        ))}
+                                      </optgroup>
+                                    ))}
+                                  </select>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {duplicateFields.length > 0 && (
+                        <p className="mt-2 text-sm text-red-600">
+                          Each field can only be mapped once: {Array.from(new Set(duplicateFields)).map(getLeadFieldLabel).join(', ')}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Preview */}
+                    {mappedHeaders.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                          Preview (first {Math.min(PREVIEW_ROWS, sheet.rows.length)} rows)
+                        </h4>
+                        <div className="border border-gray-200 rounded-md overflow-x-auto">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-2 py-2 text-left font-medium text-gray-500">Row</th>
+                                {mappedHeaders.map((header) => (
+                                  <th key={header} className="px-2 py-2 text-left font-medium text-gray-500 whitespace-nowrap">
+                                    {getLeadFieldLabel(mapping[header])}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {sheet.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                                <tr key={row.number}>
+                                  <td className="px-2 py-1 text-gray-400">{row.number}</td>
+                                  {mappedHeaders.map((header) => {
+                                    const issue = issueAt(row.number, header);
+                                    return (
+                                      <td
+                                        key={header}
+                                        title={issue?.message}
+                                        className={`px-2 py-1 whitespace-nowrap ${issue ? 'bg-red-50 text-red-700' : 'text-gray-900'}`}
+                                      >
+                                        {row.cells[sheet.headers.indexOf(header)] || ''}
+                                      </td>
+                                    );
+                                  })}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Validation */}
+                    {issues.length > 0 ? (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                        <h4 className="text-sm font-semibold text-yellow-900 mb-2">
+                          {invalidRows.length.toLocaleString()} row{invalidRows.length === 1 ? '' : 's'} with invalid
+                          values ({issues.length.toLocaleString()} issues)
+                        </h4>
+                        <div className="max-h-40 overflow-y-auto">
+                          <ul className="text-xs text-yellow-800 space-y-1">
+                            {issues.slice(0, 200).map((issue) => (
+                              <li key={`${issue.row}-${issue.header}`}>
+                                <strong>Row {issue.row}:</strong> {getLeadFieldLabel(issue.field)} &quot;{issue.value}&quot; —{' '}
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <label className="mt-3 flex items-center gap-2 text-sm text-yellow-900">
+                          <input
+                            type="checkbox"
+                            checked={skipInvalidRows}
+                            onChange={(e) => setSkipInvalidRows(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          Skip rows with invalid values
+                        </label>
+                      </div>
+                    ) : (
+                      mappedHeaders.length > 0 && (
+                        <p className="text-sm text-green-700">✓ All mapped emails, phones and zip codes look valid</p>
+                      )
+                    )}
+                  </>
+                )}
+
+                <div className="sm:flex sm:flex-row-reverse">
+                  <button
+                    type="button"
+                    onClick={() => importMutation.mutate()}
+                    disabled={!canImport || importMutation.isPending}
+                    className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {importMutation.isPending && (
+                      <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                    )}
+                    {importMutation.isPending
+                      ? 'Uploading...'
+                      : `Import ${((sheet?.rows.length || 0) - (skipInvalidRows ? invalidRows.length : 0)).toLocaleString()} Leads`}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleImportClose}
+                    disabled={importMutation.isPending}
+                    className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              /* Import job progress */
+              <div className="space-y-4">
+                <div className="bg-blue-50 border border-blue-200 rounded-md p-4 text-sm text-blue-900">
+                  Import started. It runs in the background, so you can close this window and keep working —
+                  progress stays visible in the Imports panel.
+                </div>
+
+                <ImportJobStatus jobId={jobId} />
+
+                <div className="flex items-center justify-end gap-4">
+                  <Link href="/dashboard/imports" className="text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+                    View import history
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={handleImportClose}
+                    className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
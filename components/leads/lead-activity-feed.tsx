@@ -0,0 +1,133 @@
+/**
+ * Lead Activity Feed Component
+ * Everything that happened to a lead in one timeline, filterable by type
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { chatSessionsApi, leadsApi } from '@/lib/api';
+import { LEAD_TIMELINE_TYPE_LABELS, LeadTimelineItemType, buildLeadTimeline } from '@/lib/lead-timeline';
+import { MarkdownContent } from '@/components/notes/markdown-content';
+
+const TIMELINE_TYPES = Object.keys(LEAD_TIMELINE_TYPE_LABELS) as LeadTimelineItemType[];
+
+const TYPE_STYLES: Record<LeadTimelineItemType, { dot: string; badge: string }> = {
+  activity: { dot: 'bg-gray-400', badge: 'bg-gray-100 text-gray-800' },
+  note: { dot: 'bg-yellow-400', badge: 'bg-yellow-100 text-yellow-800' },
+  status_change: { dot: 'bg-purple-500', badge: 'bg-purple-100 text-purple-800' },
+  chat_session: { dot: 'bg-sky-500', badge: 'bg-sky-100 text-sky-800' },
+  field_edit: { dot: 'bg-indigo-400', badge: 'bg-indigo-100 text-indigo-800' },
+};
+
+export function LeadActivityFeed({ leadId }: { leadId: number }) {
+  // Every type is shown until the user narrows the feed
+  const [hiddenTypes, setHiddenTypes] = useState<LeadTimelineItemType[]>([]);
+
+  const activitiesQuery = useQuery({
+    queryKey: ['lead', leadId, 'activities'],
+    queryFn: () => leadsApi.getLeadActivities(leadId),
+  });
+
+  // Shares its cache with the notes timeline
+  const notesQuery = useQuery({
+    queryKey: ['lead', leadId, 'notes'],
+    queryFn: () => leadsApi.getLeadNotes(leadId),
+  });
+
+  const chatSessionsQuery = useQuery({
+    queryKey: ['chat-sessions', 'lead', leadId, 'all'],
+    queryFn: () => chatSessionsApi.getSessionsByLead(leadId),
+  });
+
+  const queries = [activitiesQuery, notesQuery, chatSessionsQuery];
+  const isLoading = queries.some((q) => q.isLoading);
+  const failedCount = queries.filter((q) => q.error).length;
+
+  const items = buildLeadTimeline({
+    activities: activitiesQuery.data,
+    notes: notesQuery.data,
+    chatSessions: chatSessionsQuery.data?.items,
+  });
+  const visibleItems = items.filter((item) => !hiddenTypes.includes(item.type));
+
+  const toggleType = (type: LeadTimelineItemType) => {
+    setHiddenTypes(hiddenTypes.includes(type) ? hiddenTypes.filter((t) => t !== type) : [...hiddenTypes, type]);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-2">🕒 Activity History</h2>
+
+      {/* Type filters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {TIMELINE_TYPES.map((type) => {
+          const count = items.filter((item) => item.type === type).length;
+          const isVisible = !hiddenTypes.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${
+                isVisible ? `${TYPE_STYLES[type].badge} border-transparent` : 'bg-white text-gray-400 border-gray-200 line-through'
+              }`}
+            >
+              {LEAD_TIMELINE_TYPE_LABELS[type]} ({count})
+            </button>
+          );
+        })}
+        {hiddenTypes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setHiddenTypes([])}
+            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            Show all
+          </button>
+        )}
+      </div>
+
+      {failedCount > 0 && (
+        <p className="mb-3 text-sm text-red-600">
+          Some history could not be loaded ({failedCount} of {queries.length} sources failed).
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : visibleItems.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {items.length === 0 ? 'Nothing has happened to this lead yet.' : 'No history matches the selected types.'}
+        </p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-100 ml-2 space-y-4">
+          {visibleItems.map((item) => (
+            <li key={item.key} className="ml-4">
+              <span
+                className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full ${TYPE_STYLES[item.type].dot}`}
+                aria-hidden="true"
+              ></span>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm font-semibold text-gray-900">{item.title}</p>
+                <p className="text-xs text-gray-500">
+                  {item.actor && <span className="font-medium text-gray-700">{item.actor} · </span>}
+                  {new Date(item.at).toLocaleString()}
+                </p>
+              </div>
+              {item.description &&
+                (item.markdown ? (
+                  <div className="mt-1 rounded-md bg-gray-50 p-2">
+                    <MarkdownContent content={item.description} />
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{item.description}</p>
+                ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
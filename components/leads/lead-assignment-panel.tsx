@@ -0,0 +1,142 @@
+/**
+ * Lead Assignment Panel Component
+ * Current owner, reassignment and the lead's assignment history
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { ASSIGNMENT_METHOD_LABELS } from '@/lib/assignment';
+import { useCanManage, useUser } from '@/lib/store/auth';
+import { Lead } from '@/lib/types';
+import { AssigneeSelect } from './assignee-select';
+
+export function LeadAssignmentPanel({ lead }: { lead: Lead }) {
+  const queryClient = useQueryClient();
+  const canManage = useCanManage();
+  const user = useUser();
+  // Picked assignee; undefined while it matches the saved one
+  const [draft, setDraft] = useState<number | null | undefined>(undefined);
+
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: ['lead', lead.id, 'assignments'],
+    queryFn: () => leadsApi.getLeadAssignments(lead.id),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (userId: number | null) => leadsApi.updateLead(lead.id, { assigned_to_id: userId }, 'detail_page'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead', lead.id] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      setDraft(undefined);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to assign lead')}`);
+    },
+  });
+
+  const currentId = lead.assigned_to_id ?? null;
+  const pickerValue = draft === undefined ? currentId : draft;
+  const isMine = !!user && currentId === user.id;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-2">👤 Assignment</h2>
+
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-500 mb-1">Assigned To</p>
+        {lead.assigned_to ? (
+          <p className="text-gray-900 font-medium">
+            {lead.assigned_to}
+            {isMine && (
+              <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                You
+              </span>
+            )}
+          </p>
+        ) : (
+          <p className="text-gray-400 font-medium">Unassigned</p>
+        )}
+      </div>
+
+      {canManage ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <AssigneeSelect
+            value={pickerValue}
+            onChange={setDraft}
+            currentName={lead.assigned_to}
+            disabled={assignMutation.isPending}
+          />
+          <button
+            type="button"
+            onClick={() => assignMutation.mutate(pickerValue)}
+            disabled={draft === undefined || draft === currentId || assignMutation.isPending}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {assignMutation.isPending ? 'Saving...' : 'Reassign'}
+          </button>
+          {user && !isMine && (
+            <button
+              type="button"
+              onClick={() => assignMutation.mutate(user.id)}
+              disabled={assignMutation.isPending}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              Assign to me
+            </button>
+          )}
+        </div>
+      ) : (
+        // Without manage rights, leads can only be claimed while nobody owns them
+        user &&
+        currentId === null && (
+          <button
+            type="button"
+            onClick={() => assignMutation.mutate(user.id)}
+            disabled={assignMutation.isPending}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {assignMutation.isPending ? 'Saving...' : 'Assign to me'}
+          </button>
+        )
+      )}
+
+      {/* History */}
+      <div className="mt-6 pt-4 border-t border-gray-100">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">History</h3>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">Failed to load assignment history.</p>
+        ) : !history?.length ? (
+          <p className="text-sm text-gray-500">This lead has never been reassigned.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {history.map((entry) => (
+              <li key={entry.id} className="py-2 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-gray-700">
+                    <span className="text-gray-500">{entry.from_user_name || 'Unassigned'}</span>
+                    {' → '}
+                    <span className="font-medium text-gray-900">{entry.to_user_name || 'Unassigned'}</span>
+                  </span>
+                  <span className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                    {entry.rule_name
+                      ? `${ASSIGNMENT_METHOD_LABELS[entry.method]}: ${entry.rule_name}`
+                      : ASSIGNMENT_METHOD_LABELS[entry.method] || entry.method}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {entry.assigned_by && <span className="font-medium text-gray-700">{entry.assigned_by} · </span>}
+                  {new Date(entry.created_at).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
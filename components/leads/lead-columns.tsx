@@ -0,0 +1,88 @@
+/**
+ * Lead Table Columns
+ * Column definitions for the configurable leads table
+ */
+
+import type { Lead, LeadSortField } from '@/lib/types';
+import { LEAD_FIELDS, STATUS_COLORS, formatLeadFieldValue } from '@/lib/lead-fields';
+import { LEAD_SORT_FIELDS } from '@/lib/lead-filters';
+
+export interface LeadColumn {
+  id: string;
+  label: string;
+  sortField?: LeadSortField;
+  render: (lead: Lead) => React.ReactNode;
+}
+
+// Composite column with avatar, name, email and phone
+const contactColumn: LeadColumn = {
+  id: 'contact',
+  label: 'Contact',
+  render: (lead) => (
+    <div className="flex items-center">
+      <div className="flex-shrink-0 h-10 w-10 rounded-full bg-indigo-600 flex items-center justify-center text-white font-semibold">
+        {lead.name?.charAt(0) || lead.email?.charAt(0) || '?'}
+      </div>
+      <div className="ml-4">
+        <div className="text-sm font-medium text-gray-900">{lead.name}</div>
+        <div className="text-sm text-gray-500">{lead.email}</div>
+        {lead.phone && <div className="text-sm text-gray-500">{lead.phone}</div>}
+      </div>
+    </div>
+  ),
+};
+
+const renderField = (lead: Lead, key: keyof Lead): React.ReactNode => {
+  if (key === 'status') {
+    return (
+      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[lead.status]}`}>
+        {lead.status}
+      </span>
+    );
+  }
+
+  if (key === 'estimated_value') {
+    return (
+      <div className="text-sm text-gray-900">
+        {lead.estimated_value ? `$${lead.estimated_value.toLocaleString()}` : '-'}
+      </div>
+    );
+  }
+
+  if (key === 'tags') {
+    const tags = (lead.tags || '').split(',').map((t) => t.trim()).filter(Boolean);
+    if (tags.length === 0) return <div className="text-sm text-gray-900">-</div>;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {tags.map((tag) => (
+          <span key={tag} className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+            {tag}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  if (key === 'created_at' || key === 'updated_at') {
+    return <div className="text-sm text-gray-500">{new Date(lead[key]).toLocaleDateString()}</div>;
+  }
+
+  return <div className="text-sm text-gray-900">{formatLeadFieldValue(lead, key) || '-'}</div>;
+};
+
+export const LEAD_COLUMNS: LeadColumn[] = [
+  contactColumn,
+  ...LEAD_FIELDS.map((field) => ({
+    id: field.key,
+    label: field.label,
+    sortField: LEAD_SORT_FIELDS.find((f) => f === field.key),
+    render: (lead: Lead) => renderField(lead, field.key),
+  })),
+];
+
+export const DEFAULT_LEAD_COLUMNS = ['contact', 'city', 'status', 'source', 'estimated_value', 'created_at'];
+
+export const getLeadColumns = (ids: string[]): LeadColumn[] =>
+  ids
+    .map((id) => LEAD_COLUMNS.find((c) => c.id === id))
+    .filter((c): c is LeadColumn => !!c);
@@ -0,0 +1,198 @@
+/**
+ * Lead Filters Form Component
+ * Search, status, source and per-field filters shared by the leads list and
+ * the pipeline board
+ */
+
+'use client';
+
+import { useRef, useState, startTransition } from 'react';
+import { useAssignableUsers } from '@/lib/assignment';
+import { useTerritories } from '@/lib/territories';
+import { STATUS_LABELS } from '@/lib/lead-fields';
+import { LeadFilters, LeadStatus } from '@/lib/types';
+
+type TextFilterKey = 'search' | 'source' | 'name' | 'phone' | 'email';
+
+interface LeadFiltersFormProps {
+  filters: LeadFilters;
+  onChange: (changes: Partial<LeadFilters>, options?: { replace?: boolean }) => void;
+}
+
+export function LeadFiltersForm({ filters, onChange }: LeadFiltersFormProps) {
+  // Text inputs are held locally and debounced into the URL, so typing
+  // doesn't add a history entry (and a request) per keystroke
+  const [textDraft, setTextDraft] = useState<Partial<LeadFilters>>({});
+  const textDraftTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { data: users } = useAssignableUsers();
+  const { data: territories } = useTerritories();
+
+  const commitTextDraft = (draft: Partial<LeadFilters>) => {
+    if (textDraftTimer.current) clearTimeout(textDraftTimer.current);
+    if (Object.keys(draft).length === 0) return;
+    startTransition(() => {
+      onChange(draft, { replace: true });
+      setTextDraft({});
+    });
+  };
+
+  const updateTextFilter = (key: TextFilterKey, value: string) => {
+    const draft = { ...textDraft, [key]: value };
+    setTextDraft(draft);
+    if (textDraftTimer.current) clearTimeout(textDraftTimer.current);
+    textDraftTimer.current = setTimeout(() => commitTextDraft(draft), 400);
+  };
+
+  const textValue = (key: TextFilterKey) => textDraft[key] ?? filters[key];
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    commitTextDraft(textDraft);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <form onSubmit={handleSearch} className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div className="sm:col-span-2">
+          <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">
+            Search
+          </label>
+          <input
+            type="text"
+            id="search"
+            value={textValue('search')}
+            onChange={(e) => updateTextFilter('search', e.target.value)}
+            placeholder="Search by name, email, phone, or company..."
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            id="status"
+            value={filters.status}
+            onChange={(e) => onChange({ status: e.target.value as LeadStatus | 'ALL' })}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="ALL">All Statuses</option>
+            {Object.values(LeadStatus).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="source" className="block text-sm font-medium text-gray-700 mb-1">
+            Source
+          </label>
+          <input
+            type="text"
+            id="source"
+            value={textValue('source')}
+            onChange={(e) => updateTextFilter('source', e.target.value)}
+            placeholder="Filter by source..."
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+
+        {/* Individual Field Search Filters */}
+        <div className="sm:col-span-4 pt-4 border-t border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">🔍 Individual Field Search</h3>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="nameFilter" className="block text-sm font-medium text-gray-700 mb-1">
+                Search by Name
+              </label>
+              <input
+                type="text"
+                id="nameFilter"
+                value={textValue('name')}
+                onChange={(e) => updateTextFilter('name', e.target.value)}
+                placeholder="Filter by name only..."
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="phoneFilter" className="block text-sm font-medium text-gray-700 mb-1">
+                Search by Phone
+              </label>
+              <input
+                type="text"
+                id="phoneFilter"
+                value={textValue('phone')}
+                onChange={(e) => updateTextFilter('phone', e.target.value)}
+                placeholder="Filter by phone only..."
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="emailFilter" className="block text-sm font-medium text-gray-700 mb-1">
+                Search by Email
+              </label>
+              <input
+                type="text"
+                id="emailFilter"
+                value={textValue('email')}
+                onChange={(e) => updateTextFilter('email', e.target.value)}
+                placeholder="Filter by email only..."
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="assigneeFilter" className="block text-sm font-medium text-gray-700 mb-1">
+                Assigned To
+              </label>
+              <select
+                id="assigneeFilter"
+                value={filters.assignee}
+                onChange={(e) => onChange({ assignee: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Anyone</option>
+                <option value="none">Unassigned</option>
+                {users?.map((user) => (
+                  <option key={user.id} value={String(user.id)}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="territoryFilter" className="block text-sm font-medium text-gray-700 mb-1">
+                Territory
+              </label>
+              <select
+                id="territoryFilter"
+                value={filters.territory}
+                onChange={(e) => onChange({ territory: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Anywhere</option>
+                {territories?.map((territory) => (
+                  <option key={territory.id} value={String(territory.id)}>
+                    {territory.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="mt-3 flex justify-end">
+            <button
+              type="button"
+              onClick={() => {
+                setTextDraft({});
+                onChange({ name: '', phone: '', email: '', assignee: '', territory: '' });
+              }}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Clear Individual Filters
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
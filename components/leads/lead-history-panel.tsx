@@ -0,0 +1,196 @@
+/**
+ * Lead History Panel Component
+ * Field-by-field change history with diffs and per-change revert
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { LEAD_FIELDS, getLeadFieldLabel } from '@/lib/lead-fields';
+import { LEAD_CHANGE_SOURCE_LABELS, diffText, formatHistoryValue } from '@/lib/lead-history';
+import { Lead, LeadFieldHistoryEntry } from '@/lib/types';
+
+const PAGE_SIZE = 20;
+
+// System-managed fields never show up in the history
+const HISTORY_FIELDS = LEAD_FIELDS.filter((f) => !['id', 'created_at', 'updated_at'].includes(f.key));
+
+// Derived fields that cannot be written back; assignments are changed from the assignment panel
+const READ_ONLY_FIELDS: Array<keyof Lead> = ['assigned_to'];
+
+function ValueDiff({ entry }: { entry: LeadFieldHistoryEntry }) {
+  const before = formatHistoryValue(entry.field, entry.old_value);
+  const after = formatHistoryValue(entry.field, entry.new_value);
+  const diff = diffText(before, after);
+
+  return (
+    <div className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-sm">
+      <span className="text-xs font-medium text-red-700">Before</span>
+      <span className="break-words text-gray-700">
+        {before ? (
+          <>
+            {diff.prefix}
+            <span className="bg-red-100 text-red-800 line-through">{diff.removed}</span>
+            {diff.suffix}
+          </>
+        ) : (
+          <span className="text-gray-400">(empty)</span>
+        )}
+      </span>
+      <span className="text-xs font-medium text-green-700">After</span>
+      <span className="break-words text-gray-700">
+        {after ? (
+          <>
+            {diff.prefix}
+            <span className="bg-green-100 text-green-800">{diff.added}</span>
+            {diff.suffix}
+          </>
+        ) : (
+          <span className="text-gray-400">(empty)</span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+export function LeadHistoryPanel({ lead }: { lead: Lead }) {
+  const queryClient = useQueryClient();
+  const [field, setField] = useState<keyof Lead | ''>('');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['lead', lead.id, 'history', field, page],
+    queryFn: () => leadsApi.getLeadHistory(lead.id, { field: field || undefined, page, page_size: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  // Reverting is an ordinary update, so it shows up in the history itself
+  const revertMutation = useMutation({
+    mutationFn: (entry: LeadFieldHistoryEntry) =>
+      leadsApi.updateLead(lead.id, { [entry.field]: entry.old_value } as Partial<Lead>, 'revert'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead', lead.id] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to revert field')}`);
+    },
+  });
+
+  const handleRevert = (entry: LeadFieldHistoryEntry) => {
+    const value = formatHistoryValue(entry.field, entry.old_value) || '(empty)';
+    if (confirm(`Set ${getLeadFieldLabel(entry.field)} back to "${value}"?`)) {
+      revertMutation.mutate(entry);
+    }
+  };
+
+  const isCurrentValue = (entry: LeadFieldHistoryEntry) =>
+    formatHistoryValue(entry.field, (lead[entry.field] as LeadFieldHistoryEntry['old_value']) ?? null) ===
+    formatHistoryValue(entry.field, entry.old_value);
+
+  const canRevert = (entry: LeadFieldHistoryEntry) => !READ_ONLY_FIELDS.includes(entry.field) && !isCurrentValue(entry);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">🧾 Change History</h2>
+        <select
+          value={field}
+          onChange={(e) => {
+            setField(e.target.value as keyof Lead | '');
+            setPage(1);
+          }}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">All fields</option>
+          {HISTORY_FIELDS.map((f) => (
+            <option key={f.key} value={f.key}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to load change history.</p>
+      ) : !data?.items.length ? (
+        <p className="text-sm text-gray-500">
+          {field ? `${getLeadFieldLabel(field)} has not been changed.` : 'No field changes recorded yet.'}
+        </p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100">
+            {data.items.map((entry) => (
+              <li key={entry.id} className="py-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-semibold text-gray-900">{getLeadFieldLabel(entry.field)}</span>
+                    <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                      {entry.source === 'import' && entry.import_job_id ? (
+                        <Link href="/dashboard/imports" className="hover:underline">
+                          Import #{entry.import_job_id}
+                        </Link>
+                      ) : (
+                        LEAD_CHANGE_SOURCE_LABELS[entry.source] || entry.source
+                      )}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs text-gray-500">
+                    <span>
+                      {entry.changed_by && <span className="font-medium text-gray-700">{entry.changed_by} · </span>}
+                      {new Date(entry.changed_at).toLocaleString()}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertMutation.isPending || !canRevert(entry)}
+                      title={
+                        READ_ONLY_FIELDS.includes(entry.field)
+                          ? 'Reassign the lead from the assignment panel instead'
+                          : isCurrentValue(entry)
+                            ? 'The field already holds this value'
+                            : 'Restore the value from before this change'
+                      }
+                      className="font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Revert
+                    </button>
+                  </div>
+                </div>
+                <ValueDiff entry={entry} />
+              </li>
+            ))}
+          </ul>
+
+          {/* Pagination */}
+          {data.total > data.page_size && (
+            <div className="mt-3 flex items-center justify-between">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="relative inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Newer
+              </button>
+              <span className="text-sm text-gray-700">
+                Page {page} of {Math.ceil(data.total / data.page_size)}
+              </span>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page * data.page_size >= data.total}
+                className="relative inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Older
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Lead Merge Table Component
+ * Side-by-side comparison of leads with a keeper choice and per-field winners
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { MERGEABLE_FIELDS, getDifferingFields, hasFieldValue } from '@/lib/lead-merge';
+import { formatLeadFieldValue, getLeadFieldLabel } from '@/lib/lead-fields';
+import { Lead, LeadFieldWinners, LeadMergeResult } from '@/lib/types';
+
+interface LeadMergeTableProps {
+  leads: Lead[];
+  keeperId: number;
+  onKeeperChange: (leadId: number) => void;
+  winners: LeadFieldWinners;
+  onWinnerChange: (field: keyof Lead, leadId: number) => void;
+  // Leads left out of the merge stay untouched; omit to always merge every lead
+  includedIds?: number[];
+  onIncludedChange?: (leadId: number, included: boolean) => void;
+  defaultShowAllFields?: boolean;
+  disabled?: boolean;
+}
+
+export function LeadMergeTable({
+  leads,
+  keeperId,
+  onKeeperChange,
+  winners,
+  onWinnerChange,
+  includedIds,
+  onIncludedChange,
+  defaultShowAllFields = false,
+  disabled = false,
+}: LeadMergeTableProps) {
+  const [showAllFields, setShowAllFields] = useState(defaultShowAllFields);
+  const differingFields = getDifferingFields(leads);
+  const rows = MERGEABLE_FIELDS.filter((f) => showAllFields || differingFields.includes(f.key));
+  const isIncluded = (leadId: number) => !includedIds || includedIds.includes(leadId);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-40">
+              <label className="flex items-center gap-1 normal-case font-normal">
+                <input
+                  type="checkbox"
+                  checked={showAllFields}
+                  onChange={(e) => setShowAllFields(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Show identical fields
+              </label>
+            </th>
+            {leads.map((lead) => (
+              <th
+                key={lead.id}
+                className={`px-3 py-2 text-left align-top ${lead.id === keeperId ? 'bg-indigo-50' : ''} ${
+                  isIncluded(lead.id) ? '' : 'opacity-50'
+                }`}
+              >
+                <Link
+                  href={`/dashboard/leads/${lead.id}`}
+                  className="block text-sm font-semibold text-gray-900 hover:text-indigo-600"
+                >
+                  #{lead.id} {lead.name}
+                </Link>
+                <span className="block text-xs font-normal text-gray-500">
+                  Created {new Date(lead.created_at).toLocaleDateString()}
+                </span>
+                <div className="mt-1 flex flex-wrap gap-3 text-xs font-normal text-gray-700">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={lead.id === keeperId}
+                      onChange={() => onKeeperChange(lead.id)}
+                      disabled={disabled || !isIncluded(lead.id)}
+                      className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Keep
+                  </label>
+                  {onIncludedChange && lead.id !== keeperId && (
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={isIncluded(lead.id)}
+                        onChange={(e) => onIncludedChange(lead.id, e.target.checked)}
+                        disabled={disabled}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Merge in
+                    </label>
+                  )}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={leads.length + 1} className="px-3 py-4 text-center text-gray-500">
+                These leads hold identical values in every field
+              </td>
+            </tr>
+          ) : (
+            rows.map((field) => {
+              const isDiffering = differingFields.includes(field.key);
+              return (
+                <tr key={field.key}>
+                  <td className="px-3 py-1.5 font-medium text-gray-700 whitespace-nowrap">{field.label}</td>
+                  {leads.map((lead) => {
+                    const isWinner = isDiffering && (winners[field.key] ?? keeperId) === lead.id;
+                    return (
+                      <td
+                        key={lead.id}
+                        className={`px-3 py-1.5 align-top ${isWinner ? 'bg-green-50' : ''} ${
+                          isIncluded(lead.id) ? '' : 'opacity-50'
+                        }`}
+                      >
+                        <label className="flex items-start gap-2">
+                          {isDiffering && (
+                            <input
+                              type="radio"
+                              name={`${leads.map((l) => l.id).join('-')}-${field.key}`}
+                              checked={isWinner}
+                              onChange={() => onWinnerChange(field.key, lead.id)}
+                              disabled={disabled || !isIncluded(lead.id) || !hasFieldValue(lead, field.key)}
+                              className="mt-0.5 border-gray-300 text-green-600 focus:ring-green-500"
+                            />
+                          )}
+                          <span className={`break-words ${hasFieldValue(lead, field.key) ? 'text-gray-900' : 'text-gray-400'}`}>
+                            {formatLeadFieldValue(lead, field.key) || '—'}
+                          </span>
+                        </label>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// What a merge did (or, for a dry run, would do)
+export function LeadMergeSummary({ result }: { result: LeadMergeResult }) {
+  return (
+    <div
+      className={`rounded-md p-3 text-sm ${
+        result.dry_run ? 'bg-yellow-50 border border-yellow-200 text-yellow-900' : 'bg-green-50 border border-green-200 text-green-800'
+      }`}
+    >
+      <p className="font-semibold">
+        {result.dry_run ? 'Dry run — nothing has been changed yet' : 'Merge complete'}
+      </p>
+      <p className="mt-1">
+        {result.dry_run ? 'Would keep' : 'Kept'} #{result.keeper.id} {result.keeper.name} and{' '}
+        {result.dry_run ? 'remove' : 'removed'} {result.removed_ids.map((id) => `#${id}`).join(', ') || 'no leads'}.
+      </p>
+      <p className="mt-1 text-xs">
+        {result.dry_run ? 'Moves' : 'Moved'} {result.reassigned.chat_sessions} chat session
+        {result.reassigned.chat_sessions === 1 ? '' : 's'}, {result.reassigned.notes} note
+        {result.reassigned.notes === 1 ? '' : 's'} and {result.reassigned.activities}{' '}
+        {result.reassigned.activities === 1 ? 'activity' : 'activities'} to the kept lead.
+      </p>
+      {result.changes.length > 0 ? (
+        <ul className="mt-2 space-y-0.5 text-xs">
+          {result.changes.map((change) => (
+            <li key={change.field}>
+              <strong>{getLeadFieldLabel(change.field)}:</strong>{' '}
+              <span className="line-through opacity-70">{change.old_value ?? '—'}</span> → {change.new_value ?? '—'}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs">The kept lead&apos;s fields stay as they are.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Merge Lead Modal Component
+ * Merges a hand-picked second lead with the one being viewed
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { getDefaultWinners } from '@/lib/lead-merge';
+import { useLeadUndo } from '@/lib/lead-undo';
+import { Lead, LeadFieldWinners, LeadMergeResult } from '@/lib/types';
+import { LeadMergeSummary, LeadMergeTable } from './lead-merge-table';
+
+interface MergeLeadModalProps {
+  lead: Lead;
+  onClose: () => void;
+  // Called once the user dismisses a completed merge
+  onMerged: (result: LeadMergeResult) => void;
+}
+
+export function MergeLeadModal({ lead, onClose, onMerged }: MergeLeadModalProps) {
+  const queryClient = useQueryClient();
+  const { offerDeleteUndo } = useLeadUndo();
+  const [searchDraft, setSearchDraft] = useState('');
+  const [search, setSearch] = useState('');
+  const [otherLead, setOtherLead] = useState<Lead | null>(null);
+  const [keeperId, setKeeperId] = useState(lead.id);
+  const [winners, setWinners] = useState<LeadFieldWinners>({});
+  const [result, setResult] = useState<LeadMergeResult | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchDraft.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchDraft]);
+
+  const { data: candidates, isFetching: isSearching } = useQuery({
+    queryKey: ['leads', 'merge-candidates', search],
+    queryFn: () => leadsApi.listLeads({ search, page_size: 10 }),
+    enabled: !otherLead && search.length >= 2,
+  });
+
+  const leads = otherLead ? [lead, otherLead] : [lead];
+  const mergedId = otherLead ? (keeperId === lead.id ? otherLead.id : lead.id) : null;
+
+  const selectLead = (selected: Lead | null, nextKeeperId: number) => {
+    setOtherLead(selected);
+    setKeeperId(nextKeeperId);
+    setWinners(selected ? getDefaultWinners([lead, selected], nextKeeperId) : {});
+    setResult(null);
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      leadsApi.mergeLeads({
+        keeper_id: keeperId,
+        merged_ids: mergedId ? [mergedId] : [],
+        fields: winners,
+        source: 'manual',
+        dry_run: dryRun,
+      }),
+    onSuccess: (mergeResult) => {
+      setResult(mergeResult);
+      if (!mergeResult.dry_run) {
+        queryClient.invalidateQueries({ queryKey: ['leads'] });
+        queryClient.invalidateQueries({ queryKey: ['lead', mergeResult.keeper.id] });
+        queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+        offerDeleteUndo(mergeResult.removed_ids, `Merged #${mergeResult.removed_ids.join(', #')} into #${mergeResult.keeper.id}`);
+      }
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to merge leads')}`);
+    },
+  });
+
+  const handleMerge = () => {
+    if (confirm(`Merge #${mergedId} into #${keeperId}? \n\nLead #${mergedId} will be moved to trash. Undo restores it, but its notes, chat sessions, activities and the fields picked for #${keeperId} stay on #${keeperId}.`)) {
+      mergeMutation.mutate(false);
+    }
+  };
+
+  const mergedResult = result && !result.dry_run ? result : null;
+  const isMerged = !!mergedResult;
+
+  const handleClose = () => {
+    if (mergedResult) {
+      onMerged(mergedResult);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed z-50 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={mergeMutation.isPending ? undefined : handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Center modal vertically */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full relative">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 space-y-4">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Merge #{lead.id} {lead.name}</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Chat sessions, notes and activities of the removed lead move to the one you keep.
+              </p>
+            </div>
+
+            {/* Second lead picker */}
+            {!otherLead ? (
+              <div>
+                <label htmlFor="merge-search" className="block text-sm font-medium text-gray-700">
+                  Find the other lead
+                </label>
+                <input
+                  id="merge-search"
+                  type="text"
+                  autoFocus
+                  value={searchDraft}
+                  onChange={(e) => setSearchDraft(e.target.value)}
+                  placeholder="Name, phone, email or address"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm px-3 py-2 border"
+                />
+                {search.length >= 2 && (
+                  <ul className="mt-2 max-h-72 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {isSearching && !candidates ? (
+                      <li className="px-3 py-2 text-sm text-gray-500">Searching...</li>
+                    ) : !candidates?.items.some((candidate) => candidate.id !== lead.id) ? (
+                      <li className="px-3 py-2 text-sm text-gray-500">No other leads match</li>
+                    ) : (
+                      candidates.items
+                        .filter((candidate) => candidate.id !== lead.id)
+                        .map((candidate) => (
+                          <li key={candidate.id}>
+                            <button
+                              type="button"
+                              onClick={() => selectLead(candidate, lead.id)}
+                              className="w-full text-left px-3 py-2 hover:bg-indigo-50"
+                            >
+                              <span className="block text-sm font-medium text-gray-900">
+                                #{candidate.id} {candidate.name}
+                              </span>
+                              <span className="block text-xs text-gray-500">
+                                {[candidate.phone, candidate.email, candidate.address, candidate.city, candidate.source_file]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                              </span>
+                            </button>
+                          </li>
+                        ))
+                    )}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <>
+                {!isMerged && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      Pick the lead to keep and, for each differing field, the value that wins.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => selectLead(null, lead.id)}
+                      disabled={mergeMutation.isPending}
+                      className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    >
+                      Choose a different lead
+                    </button>
+                  </div>
+                )}
+
+                {result && <LeadMergeSummary result={result} />}
+
+                {!isMerged && (
+                  <div className="max-h-[28rem] overflow-y-auto border border-gray-200 rounded-md">
+                    <LeadMergeTable
+                      leads={leads}
+                      keeperId={keeperId}
+                      onKeeperChange={(leadId) => selectLead(otherLead, leadId)}
+                      winners={winners}
+                      onWinnerChange={(field, leadId) => {
+                        setWinners({ ...winners, [field]: leadId });
+                        setResult(null);
+                      }}
+                      defaultShowAllFields
+                      disabled={mergeMutation.isPending}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            {mergedResult ? (
+              <button
+                type="button"
+                onClick={handleClose}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 sm:w-auto sm:text-sm"
+              >
+                {mergedResult.keeper.id === lead.id ? 'Done' : `Open #${mergedResult.keeper.id}`}
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={!otherLead || mergeMutation.isPending}
+                  className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 sm:w-auto sm:text-sm disabled:opacity-50"
+                >
+                  {mergeMutation.isPending && mergeMutation.variables === false
+                    ? 'Merging...'
+                    : otherLead
+                      ? `Merge #${mergedId} into #${keeperId}`
+                      : 'Merge'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => mergeMutation.mutate(true)}
+                  disabled={!otherLead || mergeMutation.isPending}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm disabled:opacity-50"
+                >
+                  Preview (dry run)
+                </button>
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={mergeMutation.isPending}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Saved Views Bar Component
+ * Tabs for named lead searches, private to the user or shared with the team
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { savedViewsApi, getApiErrorMessage } from '@/lib/api';
+import { LeadFilters, SavedView } from '@/lib/types';
+import { isSameFilters, withDefaultFilters } from '@/lib/lead-filters';
+import { useUser } from '@/lib/store/auth';
+
+interface SavedViewsBarProps {
+  activeViewId: number | null;
+  filters: LeadFilters;
+  onSelectView: (view: SavedView | null) => void;
+}
+
+export function SavedViewsBar({ activeViewId, filters, onSelectView }: SavedViewsBarProps) {
+  const user = useUser();
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+
+  const { data: views = [] } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: () => savedViewsApi.listViews(),
+  });
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  const isOwner = !!activeView && activeView.owner_id === user?.id;
+  const isModified = !!activeView && !isSameFilters(withDefaultFilters(activeView.filters), filters);
+
+  const createMutation = useMutation({
+    mutationFn: () => savedViewsApi.createView({ name: viewName.trim(), filters, is_shared: isShared }),
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      setIsSaving(false);
+      setViewName('');
+      setIsShared(false);
+      onSelectView(view);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save view')}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (viewId: number) => savedViewsApi.updateView(viewId, { filters }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to update view')}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (viewId: number) => savedViewsApi.deleteView(viewId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      onSelectView(null);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete view')}`);
+    },
+  });
+
+  const handleSaveSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+    createMutation.mutate();
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (confirm(`Delete saved view "${view.name}"?`)) {
+      deleteMutation.mutate(view.id);
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `whitespace-nowrap py-3 px-1 border-b-2 text-sm font-medium ${
+      active
+        ? 'border-indigo-500 text-indigo-600'
+        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+    }`;
+
+  return (
+    <div className="bg-white shadow rounded-lg px-4">
+      <div className="flex items-center justify-between gap-4 border-b border-gray-200">
+        <nav className="-mb-px flex gap-6 overflow-x-auto">
+          <button type="button" onClick={() => onSelectView(null)} className={tabClass(activeViewId === null)}>
+            All Leads
+          </button>
+          {views.map((view) => (
+            <button
+              key={view.id}
+              type="button"
+              onClick={() => onSelectView(view)}
+              className={tabClass(view.id === activeViewId)}
+              title={view.owner_id !== user?.id && view.owner_name ? `Shared by ${view.owner_name}` : undefined}
+            >
+              {view.is_shared && <span className="mr-1">👥</span>}
+              {view.name}
+              {view.id === activeViewId && isModified && <span className="ml-1 text-gray-400">*</span>}
+            </button>
+          ))}
+        </nav>
+
+        <div className="flex items-center gap-2 py-2">
+          {isOwner && isModified && (
+            <button
+              type="button"
+              onClick={() => updateMutation.mutate(activeView.id)}
+              disabled={updateMutation.isPending}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save Changes'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsSaving(!isSaving)}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            💾 Save View
+          </button>
+          {isOwner && (
+            <button
+              type="button"
+              onClick={() => handleDelete(activeView)}
+              disabled={deleteMutation.isPending}
+              className="inline-flex items-center px-3 py-1.5 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+            >
+              Delete View
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isSaving && (
+        <form onSubmit={handleSaveSubmit} className="flex flex-wrap items-center gap-3 py-3">
+          <input
+            type="text"
+            required
+            autoFocus
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            placeholder="View name, e.g. Hot leads in Miami"
+            className="flex-1 min-w-[200px] rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Share with team
+          </label>
+          <button
+            type="submit"
+            disabled={!viewName.trim() || createMutation.isPending}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsSaving(false)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
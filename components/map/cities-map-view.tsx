@@ -0,0 +1,149 @@
+/**
+ * Cities Map View
+ * Geocodes leads onto the map and turns area selections into a leads list link
+ */
+
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { fetchAllLeads } from '@/lib/lead-export';
+import { MapPoint } from '@/lib/map/geo';
+import { useGeocodedLeads } from '@/lib/map/geocoding';
+import { GEOCODER_SETUP_HINT } from '@/lib/map/providers';
+import { useGeocodeCacheStore } from '@/lib/store/geocode-cache';
+import type { MapSelectionMode } from './leads-map';
+
+// Leaflet touches window on import
+const LeadsMap = dynamic(() => import('./leads-map').then((m) => m.LeadsMap), {
+  ssr: false,
+  loading: () => <div className="h-[600px] rounded-2xl bg-gray-100 animate-pulse"></div>,
+});
+
+// Geocoding runs in the browser at about one request per second, so the map
+// plots a bounded sample; narrow it down with the state filter
+const MAP_LEAD_LIMIT = 500;
+
+const SELECTION_MODES: Array<{ mode: MapSelectionMode; label: string }> = [
+  { mode: 'pan', label: '✋ Pan' },
+  { mode: 'rectangle', label: '▭ Rectangle' },
+  { mode: 'lasso', label: '➰ Lasso' },
+];
+
+interface CitiesMapViewProps {
+  state: string; // State filter value, or 'ALL'
+  stateTotals: Record<string, number>; // Leads per state code, for the choropleth
+  onStateClick: (stateCode: string) => void;
+}
+
+export function CitiesMapView({ state, stateTotals, onStateClick }: CitiesMapViewProps) {
+  const router = useRouter();
+  const [selectionMode, setSelectionMode] = useState<MapSelectionMode>('pan');
+  const [selected, setSelected] = useState<MapPoint[]>([]);
+  const clearGeocodeCache = useGeocodeCacheStore((s) => s.clear);
+
+  const { data: leads, isLoading, error: leadsError } = useQuery({
+    queryKey: ['leads', 'map', state],
+    queryFn: () =>
+      fetchAllLeads(
+        { state: state === 'ALL' ? undefined : state, sort_by: 'created_at', sort_order: 'desc' },
+        { maxLeads: MAP_LEAD_LIMIT }
+      ),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { points, unlocated, pending, error, isEnabled: isGeocoding } = useGeocodedLeads(leads);
+
+  const openSelection = () => {
+    const ids = selected.map((point) => point.lead.id).join(',');
+    router.push(`/dashboard/leads?ids=${ids}`);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100 space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {SELECTION_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setSelectionMode(mode)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                selectionMode === mode ? 'bg-indigo-600 text-white shadow' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-gray-700">
+              <strong>{selected.length}</strong> lead{selected.length === 1 ? '' : 's'} selected
+            </span>
+            <button
+              type="button"
+              onClick={openSelection}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Open in leads list
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push(`/dashboard/route?ids=${selected.map((point) => point.lead.id).join(',')}`)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              🚗 Plan route
+            </button>
+            <button
+              type="button"
+              onClick={() => setSelected([])}
+              className="text-gray-500 hover:text-gray-700 font-medium"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Status */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+        {isLoading ? (
+          <span>Loading leads...</span>
+        ) : (
+          <span>
+            <strong>{points.length}</strong> of {leads?.length ?? 0} leads on the map
+            {leads?.length === MAP_LEAD_LIMIT && ` (newest ${MAP_LEAD_LIMIT}; filter by state to see others)`}
+          </span>
+        )}
+        {pending > 0 && <span className="text-indigo-600">Locating {pending} addresses...</span>}
+        {pending === 0 && unlocated > 0 && <span>{unlocated} without a known location</span>}
+        {!isGeocoding && <span className="text-amber-700">{GEOCODER_SETUP_HINT}</span>}
+        {leadsError && <span className="text-red-600">Failed to load leads</span>}
+        {error && <span className="text-red-600">Geocoding paused: {error}</span>}
+        <button
+          type="button"
+          onClick={() => {
+            if (confirm('Clear saved locations? Leads will be geocoded again.')) clearGeocodeCache();
+          }}
+          className="ml-auto text-gray-500 hover:text-gray-700"
+        >
+          Clear geocode cache
+        </button>
+      </div>
+
+      <LeadsMap
+        points={points}
+        stateTotals={stateTotals}
+        boundsKey={state}
+        selectionMode={selectionMode}
+        onSelect={setSelected}
+        onStateClick={onStateClick}
+      />
+    </div>
+  );
+}
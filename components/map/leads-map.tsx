@@ -0,0 +1,277 @@
+/**
+ * Leads Map Component
+ * Leaflet map with a state choropleth, clustered lead markers and
+ * rectangle/lasso selection. Browser-only: load it with next/dynamic
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import { feature } from 'topojson-client';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import 'leaflet/dist/leaflet.css';
+import { STATUS_HEX_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { MapPoint, clusterPoints, getChoroplethColor, isPointInPolygon } from '@/lib/map/geo';
+import { LatLng, getMapProviders } from '@/lib/map/providers';
+import { toStateCode } from '@/lib/map/us-states';
+
+export type MapSelectionMode = 'pan' | 'rectangle' | 'lasso';
+
+interface LeadsMapProps {
+  points: MapPoint[];
+  stateTotals: Record<string, number>; // Leads per state code
+  boundsKey: string; // The map frames the points again whenever this changes
+  selectionMode: MapSelectionMode;
+  onSelect: (points: MapPoint[]) => void;
+  onStateClick?: (stateCode: string) => void;
+}
+
+type StateFeature = Feature<Geometry, { name: string }>;
+
+const US_CENTER: L.LatLngTuple = [39.8, -98.6];
+const CLUSTER_CELL_PX = 60;
+// Drags shorter than this are clicks, which keep the current selection
+const MIN_SELECTION_DRAG_PX = 5;
+
+// Lead details built as DOM nodes, so names and addresses are never parsed as HTML
+const buildPopup = (point: MapPoint) => {
+  const { lead } = point;
+  const container = document.createElement('div');
+  container.className = 'text-sm';
+
+  const link = document.createElement('a');
+  link.href = `/dashboard/leads/${lead.id}`;
+  link.textContent = lead.name;
+  link.className = 'font-semibold text-indigo-600';
+  container.appendChild(link);
+
+  [
+    STATUS_LABELS[lead.status] || lead.status,
+    [lead.address, lead.city, lead.state, lead.zip_code].filter(Boolean).join(', '),
+    lead.phone,
+    point.precision === 'city' ? 'Location approximate (city level)' : '',
+  ]
+    .filter(Boolean)
+    .forEach((text) => {
+      const line = document.createElement('div');
+      line.textContent = text!;
+      container.appendChild(line);
+    });
+
+  return container;
+};
+
+export function LeadsMap({ points, stateTotals, boundsKey, selectionMode, onSelect, onStateClick }: LeadsMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markersRef = useRef<L.LayerGroup | null>(null);
+  const statesRef = useRef<L.GeoJSON | null>(null);
+  // Latest props for Leaflet event handlers registered once
+  const latest = useRef({ points, stateTotals, selectionMode, onSelect, onStateClick });
+  latest.current = { points, stateTotals, selectionMode, onSelect, onStateClick };
+
+  const maxTotal = Math.max(0, ...Object.values(stateTotals));
+  const hasBaseMap = !!getMapProviders().tiles;
+
+  const styleState = (stateFeature?: StateFeature): L.PathOptions => {
+    const code = stateFeature ? toStateCode(stateFeature.properties.name) : undefined;
+    const total = code ? latest.current.stateTotals[code] || 0 : 0;
+    return {
+      fillColor: getChoroplethColor(total, Math.max(0, ...Object.values(latest.current.stateTotals))),
+      fillOpacity: 0.6,
+      color: '#6366f1',
+      weight: 1,
+    };
+  };
+
+  const renderMarkers = () => {
+    const map = mapRef.current;
+    const layer = markersRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const zoom = map.getZoom();
+    const clusters = clusterPoints(latest.current.points, (p) => map.project([p.lat, p.lng], zoom), CLUSTER_CELL_PX);
+    clusters.forEach((cluster) => {
+      if (cluster.points.length === 1) {
+        const point = cluster.points[0];
+        L.circleMarker([point.lat, point.lng], {
+          radius: 7,
+          color: '#ffffff',
+          weight: point.precision === 'address' ? 2 : 1,
+          dashArray: point.precision === 'address' ? undefined : '2 2',
+          fillColor: STATUS_HEX_COLORS[point.lead.status] || '#6b7280',
+          fillOpacity: 0.9,
+        })
+          .bindPopup(() => buildPopup(point))
+          .addTo(layer);
+        return;
+      }
+
+      const count = cluster.points.length;
+      const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+      L.marker([cluster.center.lat, cluster.center.lng], {
+        icon: L.divIcon({
+          html: `<div style="width:${size}px;height:${size}px;line-height:${size}px">${count}</div>`,
+          className: 'rounded-full bg-indigo-600/80 text-white text-xs font-bold text-center ring-4 ring-indigo-300/60',
+          iconSize: [size, size],
+        }),
+      })
+        .on('click', () => {
+          map.fitBounds(L.latLngBounds(cluster.points.map((p) => [p.lat, p.lng] as L.LatLngTuple)), { padding: [40, 40] });
+        })
+        .addTo(layer);
+    });
+  };
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+    const { tiles } = getMapProviders();
+    const map = L.map(containerRef.current, { center: US_CENTER, zoom: 4, boxZoom: false });
+    if (tiles) L.tileLayer(tiles.url, { attribution: tiles.attribution, maxZoom: tiles.maxZoom }).addTo(map);
+    markersRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+    map.on('zoomend', renderMarkers);
+
+    let cancelled = false;
+    // Boundaries are ~100 KB, so they're only loaded with the map
+    import('us-atlas/states-10m.json').then((module) => {
+      if (cancelled) return;
+      const topology = module.default as unknown as Topology<{ states: GeometryCollection<{ name: string }> }>;
+      const states = feature(topology, topology.objects.states) as FeatureCollection<Geometry, { name: string }>;
+      statesRef.current = L.geoJSON(states, {
+        style: (f) => styleState(f as StateFeature),
+        onEachFeature: (f, layer) => {
+          const code = toStateCode((f as StateFeature).properties.name);
+          layer.bindTooltip(() => `${(f as StateFeature).properties.name}: ${(code && latest.current.stateTotals[code]) || 0} leads`, {
+            sticky: true,
+          });
+          layer.on('click', () => {
+            if (code && latest.current.selectionMode === 'pan') latest.current.onStateClick?.(code);
+          });
+        },
+      }).addTo(map);
+      statesRef.current.bringToBack();
+    });
+
+    return () => {
+      cancelled = true;
+      map.remove();
+      mapRef.current = null;
+      markersRef.current = null;
+      statesRef.current = null;
+    };
+  }, []);
+
+  // Restyle the choropleth when totals change
+  useEffect(() => {
+    statesRef.current?.setStyle((f) => styleState(f as StateFeature));
+  }, [stateTotals]);
+
+  // Redraw markers as points resolve, framing them once per boundsKey. Geocoding
+  // and refetches often hand over an equal set, which is left as drawn
+  const fittedKey = useRef<string | null>(null);
+  const drawnKey = useRef<string | null>(null);
+  useEffect(() => {
+    const pointsKey = points.map((p) => `${p.lead.id}@${p.lat},${p.lng}:${p.lead.updated_at}`).join('|');
+    if (pointsKey !== drawnKey.current) {
+      drawnKey.current = pointsKey;
+      renderMarkers();
+    }
+    const map = mapRef.current;
+    if (map && points.length > 0 && fittedKey.current !== boundsKey) {
+      map.fitBounds(L.latLngBounds(points.map((p) => [p.lat, p.lng] as L.LatLngTuple)), { padding: [40, 40], maxZoom: 12 });
+      fittedKey.current = boundsKey;
+    }
+  }, [points, boundsKey]);
+
+  // Rectangle and lasso selection take over mouse drags from panning
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || selectionMode === 'pan') return;
+
+    map.dragging.disable();
+    let path: LatLng[] | null = null;
+    let shape: L.Polygon | null = null;
+    let startPoint: L.Point | null = null;
+    let hasDragged = false;
+
+    const toPolygon = (drawn: LatLng[]): LatLng[] => {
+      if (selectionMode === 'lasso') return drawn;
+      const [start, end] = [drawn[0], drawn[drawn.length - 1]];
+      return [start, { lat: start.lat, lng: end.lng }, end, { lat: end.lat, lng: start.lng }];
+    };
+
+    const handleDown = (e: L.LeafletMouseEvent) => {
+      path = [e.latlng];
+      startPoint = e.containerPoint;
+      hasDragged = false;
+      shape?.remove();
+      shape = L.polygon([], { color: '#4f46e5', weight: 2, dashArray: '4 4', fillOpacity: 0.1 }).addTo(map);
+    };
+    const handleMove = (e: L.LeafletMouseEvent) => {
+      if (!path || !shape) return;
+      if (startPoint && e.containerPoint.distanceTo(startPoint) >= MIN_SELECTION_DRAG_PX) hasDragged = true;
+      path.push(e.latlng);
+      shape.setLatLngs(toPolygon(path));
+    };
+    const handleUp = () => {
+      if (!path) return;
+      const polygon = toPolygon(path);
+      path = null;
+      if (!hasDragged) {
+        shape?.remove();
+        shape = null;
+        return;
+      }
+      if (polygon.length >= 3) {
+        latest.current.onSelect(latest.current.points.filter((p) => isPointInPolygon(p, polygon)));
+      }
+    };
+
+    map.on('mousedown', handleDown);
+    map.on('mousemove', handleMove);
+    map.on('mouseup', handleUp);
+    return () => {
+      map.off('mousedown', handleDown);
+      map.off('mousemove', handleMove);
+      map.off('mouseup', handleUp);
+      shape?.remove();
+      map.dragging.enable();
+    };
+  }, [selectionMode]);
+
+  return (
+    <div className="relative">
+      <div
+        ref={containerRef}
+        className={`h-[600px] w-full rounded-2xl z-0 ${selectionMode === 'pan' ? '' : 'cursor-crosshair'}`}
+      ></div>
+
+      {!hasBaseMap && (
+        <div className="absolute top-3 right-3 z-[400] bg-white/90 rounded-lg shadow px-3 py-2 text-xs text-gray-600">
+          No base map: set NEXT_PUBLIC_MAP_TILE_URL to show streets
+        </div>
+      )}
+
+      {/* Choropleth legend */}
+      <div className="absolute bottom-6 left-3 z-[400] bg-white/90 rounded-lg shadow px-3 py-2 text-xs text-gray-700">
+        <div className="font-semibold mb-1">Leads per state</div>
+        <div className="flex items-center gap-1">
+          <span>0</span>
+          {[0.2, 0.4, 0.6, 0.8, 1].map((share) => (
+            <span
+              key={share}
+              className="inline-block w-5 h-3 border border-gray-200"
+              style={{ backgroundColor: getChoroplethColor(share * maxTotal, maxTotal) }}
+            ></span>
+          ))}
+          <span>{maxTotal.toLocaleString()}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
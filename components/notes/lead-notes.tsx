@@ -0,0 +1,240 @@
+/**
+ * Lead Notes Component
+ * Timeline of a lead's notes with pinned notes first, plus add, edit and delete
+ */
+
+'use client';
+
+import { ReactNode, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leadsApi, getApiErrorMessage } from '@/lib/api';
+import { useCanManage, useUser } from '@/lib/store/auth';
+import { Note, NoteCreate } from '@/lib/types';
+import { MarkdownContent } from './markdown-content';
+
+interface NoteEditorProps {
+  initialContent?: string;
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+  children?: ReactNode; // Extra controls next to the submit button
+}
+
+function NoteEditor({ initialContent = '', submitLabel, isSaving, onSubmit, onCancel, children }: NoteEditorProps) {
+  const [content, setContent] = useState(initialContent);
+  const [isPreview, setIsPreview] = useState(false);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-md ${active ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <button type="button" onClick={() => setIsPreview(false)} className={tabClass(!isPreview)}>
+          Write
+        </button>
+        <button type="button" onClick={() => setIsPreview(true)} className={tabClass(isPreview)}>
+          Preview
+        </button>
+      </div>
+      {isPreview ? (
+        <div className="min-h-[6rem] rounded-md border border-gray-200 px-3 py-2">
+          {content.trim() ? <MarkdownContent content={content} /> : <p className="text-sm text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={4}
+          placeholder="Write a note... Markdown is supported: **bold**, _italic_, lists and links"
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      )}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onSubmit(content.trim())}
+          disabled={isSaving || !content.trim()}
+          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-sm font-medium text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Pinned notes first, then newest first
+const sortNotes = (notes: Note[]) =>
+  [...notes].sort(
+    (a, b) =>
+      Number(b.is_pinned) - Number(a.is_pinned) ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+export function LeadNotes({ leadId }: { leadId: number }) {
+  const queryClient = useQueryClient();
+  const user = useUser();
+  const canManage = useCanManage();
+  const [pinNewNote, setPinNewNote] = useState(false);
+  const [composerKey, setComposerKey] = useState(0);
+  const [editingNoteId, setEditingNoteId] = useState<number | null>(null);
+
+  // Nested under the lead's key so anything refreshing the lead refreshes its notes
+  const notesKey = ['lead', leadId, 'notes'];
+  const { data: notes, isLoading, error } = useQuery({
+    queryKey: notesKey,
+    queryFn: () => leadsApi.getLeadNotes(leadId),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: NoteCreate) => leadsApi.createLeadNote(leadId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+      setPinNewNote(false);
+      // Remount the composer to clear it
+      setComposerKey((key) => key + 1);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to add note')}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ noteId, data }: { noteId: number; data: Partial<NoteCreate> }) =>
+      leadsApi.updateLeadNote(leadId, noteId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+      setEditingNoteId(null);
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to update note')}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (noteId: number) => leadsApi.deleteLeadNote(leadId, noteId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to delete note')}`);
+    },
+  });
+
+  // Authors manage their own notes; managers can manage anyone's
+  const canModify = (note: Note) => canManage || (!!user && note.created_by === user.email);
+
+  const describeAuthor = (note: Note) => {
+    if (user && note.created_by === user.email) return 'You';
+    return note.created_by_name || note.created_by || 'Unknown';
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        🗒️ Notes
+        {notes && notes.length > 0 && <span className="text-base font-medium text-gray-400">({notes.length})</span>}
+      </h2>
+
+      {/* New note */}
+      <NoteEditor
+        key={composerKey}
+        submitLabel="Add Note"
+        isSaving={createMutation.isPending}
+        onSubmit={(content) => createMutation.mutate({ content, is_pinned: pinNewNote })}
+      >
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={pinNewNote}
+            onChange={(e) => setPinNewNote(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Pin to top
+        </label>
+      </NoteEditor>
+
+      {/* Timeline */}
+      <div className="mt-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading notes...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">Failed to load notes.</p>
+        ) : !notes?.length ? (
+          <p className="text-sm text-gray-500">No notes yet.</p>
+        ) : (
+          <ol className="relative border-l-2 border-gray-100 ml-2 space-y-4">
+            {sortNotes(notes).map((note) => (
+              <li key={note.id} className="ml-4">
+                <span
+                  className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full ${note.is_pinned ? 'bg-yellow-400' : 'bg-indigo-300'}`}
+                  aria-hidden="true"
+                ></span>
+                <div className={`rounded-lg p-3 ${note.is_pinned ? 'bg-yellow-50 border border-yellow-200' : 'bg-gray-50'}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs text-gray-500">
+                    <span>
+                      {note.is_pinned && <span className="mr-1 font-semibold text-yellow-700">📌 Pinned ·</span>}
+                      <span className="font-semibold text-gray-700">{describeAuthor(note)}</span> ·{' '}
+                      {new Date(note.created_at).toLocaleString()}
+                      {note.updated_at !== note.created_at && (
+                        <span title={new Date(note.updated_at).toLocaleString()}> · edited</span>
+                      )}
+                    </span>
+                    {canModify(note) && editingNoteId !== note.id && (
+                      <span className="flex gap-3 font-medium">
+                        <button
+                          type="button"
+                          onClick={() => updateMutation.mutate({ noteId: note.id, data: { is_pinned: !note.is_pinned } })}
+                          disabled={updateMutation.isPending}
+                          className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                          {note.is_pinned ? 'Unpin' : 'Pin'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingNoteId(note.id)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (confirm('Delete this note?')) deleteMutation.mutate(note.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  {editingNoteId === note.id ? (
+                    <NoteEditor
+                      initialContent={note.content}
+                      submitLabel="Save"
+                      isSaving={updateMutation.isPending}
+                      onSubmit={(content) => updateMutation.mutate({ noteId: note.id, data: { content } })}
+                      onCancel={() => setEditingNoteId(null)}
+                    />
+                  ) : (
+                    <MarkdownContent content={note.content} />
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
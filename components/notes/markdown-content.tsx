@@ -0,0 +1,36 @@
+/**
+ * Markdown Content Component
+ * Renders user-written markdown; raw HTML is not rendered
+ */
+
+'use client';
+
+import ReactMarkdown, { Components } from 'react-markdown';
+
+// Tailwind resets element styles, so each element gets its own classes
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline hover:text-indigo-800">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="mb-2 list-disc pl-5 last:mb-0">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-2 list-decimal pl-5 last:mb-0">{children}</ol>,
+  h1: ({ children }) => <h4 className="mb-1 text-base font-bold">{children}</h4>,
+  h2: ({ children }) => <h4 className="mb-1 text-base font-bold">{children}</h4>,
+  h3: ({ children }) => <h5 className="mb-1 font-semibold">{children}</h5>,
+  blockquote: ({ children }) => (
+    <blockquote className="mb-2 border-l-4 border-gray-200 pl-3 text-gray-600 last:mb-0">{children}</blockquote>
+  ),
+  code: ({ children }) => <code className="rounded bg-gray-100 px-1 py-0.5 font-mono text-xs">{children}</code>,
+  pre: ({ children }) => <pre className="mb-2 overflow-x-auto rounded bg-gray-100 p-2 last:mb-0">{children}</pre>,
+};
+
+export function MarkdownContent({ content }: { content: string }) {
+  return (
+    <div className="text-sm text-gray-900 break-words">
+      <ReactMarkdown components={components}>{content}</ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Pipeline Column Component
+ * One status column of the pipeline board, with draggable lead cards
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { leadsApi } from '@/lib/api';
+import { Lead, LeadListParams, LeadStatus } from '@/lib/types';
+import { PRIORITY_LABELS, STATUS_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+
+// Each "Show more" loads another page; the backend caps page_size at 100
+const CARDS_PER_PAGE = 25;
+
+interface PipelineColumnProps {
+  status: LeadStatus;
+  params: LeadListParams;
+  count?: number;
+  value?: number;
+  draggingLead: Lead | null;
+  onDragStart: (lead: Lead) => void;
+  onDragEnd: () => void;
+  onDrop: (status: LeadStatus) => void;
+}
+
+export function PipelineColumn({
+  status,
+  params,
+  count,
+  value,
+  draggingLead,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: PipelineColumnProps) {
+  const [isOver, setIsOver] = useState(false);
+
+  // Keyed as ['leads', 'pipeline', status, ...] so the board can patch columns optimistically
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['leads', 'pipeline', status, params],
+    queryFn: ({ pageParam }) =>
+      leadsApi.listLeads({ ...params, status: undefined, statuses: [status], page: pageParam, page_size: CARDS_PER_PAGE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, allPages) =>
+      allPages.reduce((sum, page) => sum + page.items.length, 0) < lastPage.total ? allPages.length + 1 : undefined,
+  });
+
+  // Cards moved between columns shift page boundaries, so a lead can come back on a later page
+  const leads = (data?.pages.flatMap((page) => page.items) || []).filter(
+    (lead, index, all) => all.findIndex((l) => l.id === lead.id) === index
+  );
+  const total = data?.pages[data.pages.length - 1].total || 0;
+
+  const canDrop = !!draggingLead && draggingLead.status !== status;
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!canDrop) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        if (canDrop) onDrop(status);
+      }}
+      className={`flex flex-col w-72 flex-shrink-0 rounded-lg border-2 transition-colors ${
+        isOver ? 'border-indigo-400 bg-indigo-50' : 'border-transparent bg-gray-100'
+      }`}
+    >
+      {/* Column header */}
+      <div className="p-3 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[status]}`}>
+            {STATUS_LABELS[status]}
+          </span>
+          <span className="text-sm font-semibold text-gray-700">{count ?? '-'}</span>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          {value ? `$${value.toLocaleString()}` : '$0'} estimated
+        </p>
+      </div>
+
+      {/* Cards */}
+      <div className="flex-1 p-2 space-y-2 overflow-y-auto max-h-[calc(100vh-22rem)]">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="py-6 text-center text-xs text-gray-400">No leads</p>
+        ) : (
+          leads.map((lead) => (
+            <div
+              key={lead.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', String(lead.id));
+                onDragStart(lead);
+              }}
+              onDragEnd={onDragEnd}
+              className={`bg-white rounded-md shadow-sm border border-gray-200 p-3 cursor-grab active:cursor-grabbing hover:shadow ${
+                draggingLead?.id === lead.id ? 'opacity-50' : ''
+              }`}
+            >
+              <Link
+                href={`/dashboard/leads/${lead.id}`}
+                className="block text-sm font-medium text-gray-900 hover:text-indigo-600 truncate"
+              >
+                {lead.name}
+              </Link>
+              {(lead.city || lead.state) && (
+                <p className="text-xs text-gray-500 truncate">
+                  {[lead.city, lead.state].filter(Boolean).join(', ')}
+                </p>
+              )}
+              {lead.phone && <p className="text-xs text-gray-500">{lead.phone}</p>}
+              <div className="mt-2 flex items-center justify-between text-xs">
+                <span className="font-semibold text-gray-700">
+                  {lead.estimated_value ? `$${lead.estimated_value.toLocaleString()}` : '-'}
+                </span>
+                {lead.priority && <span className="text-gray-500">{PRIORITY_LABELS[lead.priority]}</span>}
+              </div>
+            </div>
+          ))
+        )}
+
+        {hasNextPage && (
+          <button
+            type="button"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full py-2 text-xs text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+          >
+            {isFetchingNextPage ? 'Loading...' : `Show more (${Math.max(total - leads.length, 0)} remaining)`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
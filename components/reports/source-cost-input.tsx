@@ -0,0 +1,61 @@
+/**
+ * Source Cost Input Component
+ * Inline editor for what a purchased list cost; saves on Enter or blur
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { sourceCostsApi, getApiErrorMessage } from '@/lib/api';
+
+interface SourceCostInputProps {
+  source: string;
+  sourceFile: string;
+  cost: number | null;
+}
+
+export function SourceCostInput({ source, sourceFile, cost }: SourceCostInputProps) {
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(cost === null ? '' : String(cost));
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: number | null) => {
+      if (next === null) await sourceCostsApi.deleteCost(source, sourceFile);
+      else await sourceCostsApi.setCost(source, sourceFile, next);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['source-costs'] });
+    },
+    onError: (error) => {
+      setValue(cost === null ? '' : String(cost));
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save the cost')}`);
+    },
+  });
+
+  const save = () => {
+    const trimmed = value.replace(/[$,\s]/g, '');
+    const next = trimmed === '' ? null : Number(trimmed);
+    if (next !== null && (Number.isNaN(next) || next < 0)) {
+      alert('Error: Cost must be a positive number');
+      setValue(cost === null ? '' : String(cost));
+      return;
+    }
+    if (next !== cost) saveMutation.mutate(next);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={value}
+      placeholder="$0"
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      disabled={saveMutation.isPending}
+      aria-label={`Cost of ${sourceFile}`}
+      className="w-24 rounded-md border border-gray-300 px-2 py-1 text-right text-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:opacity-50 print:border-0"
+    />
+  );
+}
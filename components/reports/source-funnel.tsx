@@ -0,0 +1,44 @@
+/**
+ * Source Funnel Component
+ * Leads reaching each pipeline stage for one source, with step conversion
+ */
+
+'use client';
+
+import { STATUS_HEX_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { formatPercent } from '@/lib/lead-stats';
+import { SourceReportRow, getFunnelCounts } from '@/lib/source-report';
+
+export function SourceFunnel({ row }: { row: SourceReportRow }) {
+  const stages = getFunnelCounts(row);
+  const top = stages[0]?.count || 0;
+
+  return (
+    <div className="space-y-2">
+      {stages.map((stage, i) => {
+        const previous = i > 0 ? stages[i - 1].count : 0;
+        return (
+          <div key={stage.status} className="flex items-center gap-3 text-sm">
+            <span className="w-24 text-gray-700">{STATUS_LABELS[stage.status]}</span>
+            <div className="flex-1 h-6 bg-gray-50 rounded">
+              <div
+                className="h-full rounded mx-auto"
+                style={{
+                  width: `${top > 0 ? Math.max((stage.count / top) * 100, stage.count > 0 ? 1 : 0) : 0}%`,
+                  backgroundColor: STATUS_HEX_COLORS[stage.status],
+                }}
+              ></div>
+            </div>
+            <span className="w-16 text-right font-semibold text-gray-900">{stage.count.toLocaleString()}</span>
+            <span className="w-20 text-right text-xs text-gray-500">
+              {i > 0 && previous > 0 ? `${formatPercent(stage.count / previous)} of prev` : ''}
+            </span>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        Leads in a stage or any later one. {(row.by_status.lost || 0).toLocaleString()} lost leads only count toward New.
+      </p>
+    </div>
+  );
+}
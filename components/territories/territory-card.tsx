@@ -0,0 +1,205 @@
+/**
+ * Territory Card Component
+ * Lead totals, status breakdown, owners and routing for one territory
+ */
+
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { assignmentRulesApi, territoriesApi, getApiErrorMessage } from '@/lib/api';
+import { getUserName } from '@/lib/assignment';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/lead-fields';
+import { describeTerritoryArea } from '@/lib/territories';
+import { AssignmentRule, LeadStatus, Territory, TerritoryStats, User } from '@/lib/types';
+
+interface TerritoryCardProps {
+  territory: Territory;
+  stats?: TerritoryStats;
+  users?: User[];
+  routingRule?: AssignmentRule; // The territory rule routing leads to this territory, if any
+  nextRulePriority: number;
+  canManage: boolean;
+  onOpenLeads: () => void;
+  onEdit: () => void;
+}
+
+export function TerritoryCard({
+  territory,
+  stats,
+  users,
+  routingRule,
+  nextRulePriority,
+  canManage,
+  onOpenLeads,
+  onEdit,
+}: TerritoryCardProps) {
+  const queryClient = useQueryClient();
+
+  const handleError = (fallback: string) => (error: unknown) => {
+    alert(`Error: ${getApiErrorMessage(error, fallback)}`);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: () => territoriesApi.deleteTerritory(territory.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['territories'] });
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+    },
+    onError: handleError('Failed to delete territory'),
+  });
+
+  const routingMutation = useMutation({
+    mutationFn: (isActive: boolean) =>
+      routingRule
+        ? assignmentRulesApi.updateRule(routingRule.id, { is_active: isActive })
+        : assignmentRulesApi.createRule({
+            name: territory.name,
+            rule_type: 'territory',
+            user_ids: [],
+            territory_id: territory.id,
+            priority: nextRulePriority,
+            is_active: true,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+    },
+    onError: handleError('Failed to update routing'),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: () => assignmentRulesApi.applyRules({ filters: { territory_id: territory.id, unassigned: true } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['territories'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      alert(`Assigned ${result.succeeded.toLocaleString()} of ${result.total.toLocaleString()} unassigned leads.`);
+    },
+    onError: handleError('Failed to assign leads'),
+  });
+
+  const handleDelete = () => {
+    if (confirm(`Delete the territory "${territory.name}"? Its leads keep their assignees.`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const isRouting = !!routingRule?.is_active;
+  const statuses = (Object.entries(stats?.statuses || {}) as Array<[LeadStatus, number]>).sort((a, b) => b[1] - a[1]);
+  const total = stats?.total_leads ?? 0;
+
+  return (
+    <div className="group bg-white rounded-2xl shadow-lg overflow-hidden border-2 border-gray-100 hover:border-indigo-300 transition-all duration-300">
+      {/* Card Header with Gradient */}
+      <div
+        onClick={onOpenLeads}
+        className="bg-gradient-to-r from-emerald-500 via-teal-500 to-cyan-500 p-6 text-white cursor-pointer"
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <h3 className="text-2xl font-bold mb-1">{territory.name}</h3>
+            <p className="text-emerald-50 text-sm">{describeTerritoryArea(territory)}</p>
+          </div>
+          <div className="text-5xl opacity-20">🧭</div>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-3">
+            <div className="text-white/80 text-xs font-medium">Total Leads</div>
+            <div className="text-3xl font-bold">{stats ? total.toLocaleString() : '-'}</div>
+          </div>
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-3">
+            <div className="text-white/80 text-xs font-medium">Unassigned</div>
+            <div className="text-3xl font-bold">{stats ? stats.unassigned_leads.toLocaleString() : '-'}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Card Body */}
+      <div className="p-6 space-y-4">
+        {/* Status Breakdown */}
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-2">STATUS BREAKDOWN</div>
+          {statuses.length === 0 ? (
+            <p className="text-sm text-gray-400">No leads in this territory yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {statuses.map(([status, count]) => (
+                <span
+                  key={status}
+                  className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_COLORS[status] || 'bg-gray-100 text-gray-800'}`}
+                >
+                  {STATUS_LABELS[status] || status} {count}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Owners */}
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">OWNERS</div>
+          <p className="text-sm text-gray-900">
+            {territory.user_ids.length > 0 ? (
+              territory.user_ids.map((id) => getUserName(users, id)).join(', ')
+            ) : (
+              <span className="text-gray-400">No owners</span>
+            )}
+          </p>
+        </div>
+
+        {/* Routing */}
+        <div className="pt-4 border-t border-gray-100 flex items-center justify-between gap-2">
+          <span
+            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${
+              isRouting ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            {isRouting ? 'Routing new leads' : 'Not routing'}
+          </span>
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => routingMutation.mutate(!isRouting)}
+              disabled={routingMutation.isPending || (!isRouting && territory.user_ids.length === 0)}
+              title={territory.user_ids.length === 0 ? 'Add owners to route leads' : undefined}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-300"
+            >
+              {isRouting ? 'Pause routing' : 'Route new leads'}
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm font-medium">
+          <button type="button" onClick={onOpenLeads} className="text-indigo-600 hover:text-indigo-800">
+            View All Leads →
+          </button>
+          {canManage && (
+            <>
+              <div className="flex-1"></div>
+              {isRouting && !!stats?.unassigned_leads && (
+                <button
+                  type="button"
+                  onClick={() => assignMutation.mutate()}
+                  disabled={assignMutation.isPending}
+                  className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                >
+                  {assignMutation.isPending ? 'Assigning...' : 'Assign unassigned'}
+                </button>
+              )}
+              <button type="button" onClick={onEdit} className="text-gray-600 hover:text-gray-900">
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * Territory Modal Component
+ * Creates or edits a territory: its states, cities, zip codes and owners
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { assignmentRulesApi, territoriesApi, getApiErrorMessage } from '@/lib/api';
+import { useAssignableUsers } from '@/lib/assignment';
+import { parseTerritoryList } from '@/lib/territories';
+import { Territory, TerritoryCreate } from '@/lib/types';
+
+interface TerritoryModalProps {
+  territory: Territory | null; // null creates a new territory
+  onClose: () => void;
+}
+
+export function TerritoryModal({ territory, onClose }: TerritoryModalProps) {
+  const queryClient = useQueryClient();
+  const { data: users, isLoading: isLoadingUsers } = useAssignableUsers();
+  const [name, setName] = useState(territory?.name || '');
+  const [states, setStates] = useState(territory?.states.join(', ') || '');
+  const [cities, setCities] = useState(territory?.cities.join(', ') || '');
+  const [zipCodes, setZipCodes] = useState(territory?.zip_codes.join(', ') || '');
+  const [userIds, setUserIds] = useState<number[]>(territory?.user_ids || []);
+  // Only offered for new territories; existing ones are routed from their card
+  const [routeLeads, setRouteLeads] = useState(true);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TerritoryCreate) => {
+      if (territory) return territoriesApi.updateTerritory(territory.id, data);
+
+      const created = await territoriesApi.createTerritory(data);
+      if (routeLeads && data.user_ids.length > 0) {
+        const rules = await assignmentRulesApi.listRules();
+        await assignmentRulesApi.createRule({
+          name: created.name,
+          rule_type: 'territory',
+          user_ids: [],
+          territory_id: created.id,
+          priority: rules.length ? Math.max(...rules.map((r) => r.priority)) + 1 : 1,
+          is_active: true,
+        });
+      }
+      return created;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['territories'] });
+      queryClient.invalidateQueries({ queryKey: ['assignment-rules'] });
+      onClose();
+    },
+    onError: (error) => {
+      alert(`Error: ${getApiErrorMessage(error, 'Failed to save territory')}`);
+    },
+  });
+
+  const hasArea = [states, cities, zipCodes].some((value) => parseTerritoryList(value).length > 0);
+  const canSave = name.trim() && hasArea;
+
+  const toggleUser = (userId: number) => {
+    setUserIds(userIds.includes(userId) ? userIds.filter((id) => id !== userId) : [...userIds, userId]);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    saveMutation.mutate({
+      name: name.trim(),
+      // States are stored as uppercase codes to match imported leads
+      states: parseTerritoryList(states).map((s) => s.toUpperCase()),
+      cities: parseTerritoryList(cities),
+      zip_codes: parseTerritoryList(zipCodes),
+      user_ids: userIds,
+    });
+  };
+
+  const listFields = [
+    { id: 'territoryStates', label: 'States', value: states, onChange: setStates, placeholder: 'TX, OK' },
+    { id: 'territoryCities', label: 'Cities', value: cities, onChange: setCities, placeholder: 'Dallas, Fort Worth' },
+    { id: 'territoryZips', label: 'Zip Codes', value: zipCodes, onChange: setZipCodes, placeholder: '75201, 75202' },
+  ];
+
+  return (
+    <div className="fixed z-50 inset-0 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={onClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Center modal vertically */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full relative">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 space-y-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">{territory ? 'Edit Territory' : 'New Territory'}</h3>
+
+            <div>
+              <label htmlFor="territoryName" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                id="territoryName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. North Texas"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            {/* Area */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {listFields.map((field) => (
+                <div key={field.id}>
+                  <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                  </label>
+                  <textarea
+                    id={field.id}
+                    rows={3}
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder={field.placeholder}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              ))}
+              <p className="sm:col-span-3 text-xs text-gray-500">
+                Separate entries with commas or new lines. A lead is in the territory when its zip code, city or state
+                is listed.
+              </p>
+            </div>
+
+            {/* Owners */}
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Owners</h4>
+              {isLoadingUsers ? (
+                <p className="text-sm text-gray-500">Loading users...</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md p-3 grid grid-cols-1 sm:grid-cols-3 gap-1">
+                  {users?.map((user) => (
+                    <label key={user.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={userIds.includes(user.id)}
+                        onChange={() => toggleUser(user.id)}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {user.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!territory && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={routeLeads}
+                  onChange={(e) => setRouteLeads(e.target.checked)}
+                  disabled={userIds.length === 0}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Route new and imported leads in this territory to its owners
+              </label>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!canSave || saveMutation.isPending}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Territory'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Toaster Component
+ * Stack of toasts along the bottom of the dashboard
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { Toast, useToastsStore } from '@/lib/store/toasts';
+
+function ToastItem({ toast }: { toast: Toast }) {
+  const dismissToast = useToastsStore((state) => state.dismissToast);
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissToast(toast.id), toast.duration);
+    return () => clearTimeout(timer);
+  }, [toast.id, toast.duration, dismissToast]);
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-xl">
+      <p className="flex-1">{toast.message}</p>
+      {toast.action && (
+        <button
+          type="button"
+          onClick={() => {
+            dismissToast(toast.id);
+            toast.action?.onClick();
+          }}
+          className="font-semibold text-indigo-300 hover:text-indigo-200"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button type="button" onClick={() => dismissToast(toast.id)} className="text-gray-400 hover:text-gray-200">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export function Toaster() {
+  const toasts = useToastsStore((state) => state.toasts);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-96 max-w-[calc(100vw-2rem)] space-y-2" aria-live="polite">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} />
+      ))}
+    </div>
+  );
+}
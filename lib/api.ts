@@ -12,9 +12,43 @@ import type {
   UserApprovalRequest,
   UserRoleUpdate,
   Lead,
+  LeadListParams,
+  LeadCounts,
+  LeadStats,
+  LeadTrends,
+  LeadTrendsParams,
+  LeadSourceFunnel,
+  SourceFileCost,
   Activity,
+  ActivityCreate,
   Note,
+  NoteCreate,
   ApiError,
+  PaginatedResponse,
+  LeadSelection,
+  LeadBulkChanges,
+  BulkOperationResponse,
+  SavedView,
+  SavedViewCreate,
+  DuplicateGroup,
+  DuplicateMatchType,
+  LeadMergeRequest,
+  LeadMergeResult,
+  LeadChangeSource,
+  LeadFieldHistoryEntry,
+  LeadAssignment,
+  AssignmentRule,
+  AssignmentRuleCreate,
+  Territory,
+  TerritoryCreate,
+  TerritoryStats,
+  ImportJob,
+  ImportJobError,
+  ImportOptions,
+  ImportTemplate,
+  ImportTemplateCreate,
+  TrashListParams,
+  TrashSettings,
   ChatSession,
   ChatSessionDetail,
   ChatSessionListResponse,
@@ -143,6 +177,26 @@ const createApiClient = (): AxiosInstance => {
 // Export singleton instance
 export const api = createApiClient();
 
+// Extract the backend's error detail from a failed request
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError<ApiError>(error) && error.response?.data?.detail) || fallback;
+
+// Status and lead ID sets are sent as single comma-separated query parameters
+const serializeLeadListParams = (params?: LeadListParams) => {
+  if (!params) return undefined;
+  const { statuses, lead_ids, ...rest } = params;
+  return {
+    ...rest,
+    statuses: statuses && statuses.length > 0 ? statuses.join(',') : undefined,
+    lead_ids: lead_ids && lead_ids.length > 0 ? lead_ids.join(',') : undefined,
+  };
+};
+
+const serializeLeadSelection = (selection: LeadSelection) =>
+  selection.lead_ids
+    ? { lead_ids: selection.lead_ids }
+    : { filters: serializeLeadListParams(selection.filters) };
+
 // Authentication API
 export const authApi = {
   // Login with Google
@@ -255,19 +309,40 @@ export const usersApi = {
 // Leads API
 export const leadsApi = {
   // List leads
-  listLeads: async (params?: {
-    page?: number;
-    page_size?: number;
-    status?: string;
-    source?: string;
-    search?: string;
-    city?: string;
-    state?: string;
-    name?: string;
-    phone?: string;
-    email?: string;
-  }): Promise<{ total: number; page: number; page_size: number; items: Lead[] }> => {
-    const response = await api.get('/leads', { params });
+  listLeads: async (params?: LeadListParams): Promise<PaginatedResponse<Lead>> => {
+    const response = await api.get<PaginatedResponse<Lead>>('/leads', {
+      params: serializeLeadListParams(params),
+    });
+    return response.data;
+  },
+
+  // Get counts (has phone, has email, per status) and per-status value sums for the whole filtered set
+  getLeadCounts: async (params?: LeadListParams): Promise<LeadCounts> => {
+    const response = await api.get<LeadCounts>('/leads/counts', {
+      params: serializeLeadListParams(params),
+    });
+    return response.data;
+  },
+
+  // Get dashboard analytics: counts, wins and value sums grouped by status,
+  // source, priority and assignee
+  getLeadStats: async (params?: LeadListParams): Promise<LeadStats> => {
+    const response = await api.get<LeadStats>('/leads/stats', {
+      params: serializeLeadListParams(params),
+    });
+    return response.data;
+  },
+
+  // Get time series for the dashboard charts: leads created and status
+  // transitions per interval, created_at cohorts and average time in each stage
+  getLeadTrends: async (params: LeadTrendsParams): Promise<LeadTrends> => {
+    const response = await api.get<LeadTrends>('/leads/stats/trends', { params });
+    return response.data;
+  },
+
+  // Get lead counts per status and won value for every source and source file
+  getSourceFunnels: async (): Promise<LeadSourceFunnel[]> => {
+    const response = await api.get<LeadSourceFunnel[]>('/leads/stats/sources');
     return response.data;
   },
 
@@ -283,71 +358,120 @@ export const leadsApi = {
     return response.data;
   },
 
-  // Update lead
-  updateLead: async (leadId: number, data: Partial<Lead>): Promise<Lead> => {
-    const response = await api.patch<Lead>(`/leads/${leadId}`, data);
+  // Update lead; source records which screen made the change in the field history
+  updateLead: async (leadId: number, data: Partial<Lead>, source?: LeadChangeSource): Promise<Lead> => {
+    const response = await api.patch<Lead>(`/leads/${leadId}`, data, {
+      params: source ? { source } : undefined,
+    });
     return response.data;
   },
 
-  // Delete lead
+  // Soft delete a lead: it moves to trash, where trashApi.restoreLeads brings it
+  // back until it's purged after the retention window
   deleteLead: async (leadId: number): Promise<{ message: string }> => {
     const response = await api.delete(`/leads/${leadId}`);
     return response.data;
   },
 
+  // Bulk update status, priority, assignment or tags; reports per-lead results
+  bulkUpdateLeads: async (
+    selection: LeadSelection,
+    changes: LeadBulkChanges
+  ): Promise<BulkOperationResponse> => {
+    const response = await api.post<BulkOperationResponse>('/leads/bulk/update', {
+      ...serializeLeadSelection(selection),
+      changes,
+    });
+    return response.data;
+  },
+
+  // Bulk soft delete; reports per-lead results
+  bulkDeleteLeads: async (selection: LeadSelection): Promise<BulkOperationResponse> => {
+    const response = await api.post<BulkOperationResponse>(
+      '/leads/bulk/delete',
+      serializeLeadSelection(selection)
+    );
+    return response.data;
+  },
+
   // Get lead activities
   getLeadActivities: async (leadId: number): Promise<Activity[]> => {
     const response = await api.get<Activity[]>(`/leads/${leadId}/activities`);
     return response.data;
   },
 
+  // Log an activity, e.g. an in-person visit
+  createLeadActivity: async (leadId: number, data: ActivityCreate): Promise<Activity> => {
+    const response = await api.post<Activity>(`/leads/${leadId}/activities`, data);
+    return response.data;
+  },
+
+  // Get field-level change history, newest first
+  getLeadHistory: async (
+    leadId: number,
+    params?: { field?: keyof Lead; page?: number; page_size?: number }
+  ): Promise<PaginatedResponse<LeadFieldHistoryEntry>> => {
+    const response = await api.get<PaginatedResponse<LeadFieldHistoryEntry>>(`/leads/${leadId}/history`, {
+      params,
+    });
+    return response.data;
+  },
+
+  // Get reassignment history, newest first
+  getLeadAssignments: async (leadId: number): Promise<LeadAssignment[]> => {
+    const response = await api.get<LeadAssignment[]>(`/leads/${leadId}/assignments`);
+    return response.data;
+  },
+
   // Get lead notes
   getLeadNotes: async (leadId: number): Promise<Note[]> => {
     const response = await api.get<Note[]>(`/leads/${leadId}/notes`);
     return response.data;
   },
 
-  // Import leads from Excel file
-  importLeads: async (file: File): Promise<{
-    success: boolean;
-    created: number;
-    total_rows: number;
-    errors?: Array<{ row: number; error: string }>;
-    message: string;
-  }> => {
-    const formData = new FormData();
-    formData.append('file', file);
+  // Add a note; the author is the logged-in user
+  createLeadNote: async (leadId: number, data: NoteCreate): Promise<Note> => {
+    const response = await api.post<Note>(`/leads/${leadId}/notes`, data);
+    return response.data;
+  },
 
-    const response = await api.post('/leads/import', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+  // Edit a note's content or pin it
+  updateLeadNote: async (leadId: number, noteId: number, data: Partial<NoteCreate>): Promise<Note> => {
+    const response = await api.patch<Note>(`/leads/${leadId}/notes/${noteId}`, data);
     return response.data;
   },
 
-  // Remove duplicate leads
-  removeDuplicates: async (): Promise<{
-    success: boolean;
-    message: string;
-    statistics: {
-      total_leads_before: number;
-      unique_combinations: number;
-      duplicates_removed: number;
-      remaining_leads: number;
-    };
-  }> => {
-    const response = await api.post('/leads/remove-duplicates');
+  // Delete a note
+  deleteLeadNote: async (leadId: number, noteId: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/leads/${leadId}/notes/${noteId}`);
+    return response.data;
+  },
+
+  // Find groups of likely duplicate leads
+  findDuplicates: async (params?: {
+    match_type?: DuplicateMatchType;
+    page?: number;
+    page_size?: number;
+  }): Promise<PaginatedResponse<DuplicateGroup>> => {
+    const response = await api.get<PaginatedResponse<DuplicateGroup>>('/leads/duplicates', { params });
     return response.data;
   },
 
-  // Bulk delete all leads
+  // Merge leads into a keeper, moving their chat sessions, notes and activities to it
+  // and the merged leads to trash; with dry_run the backend only reports what would change
+  mergeLeads: async (data: LeadMergeRequest): Promise<LeadMergeResult> => {
+    const response = await api.post<LeadMergeResult>('/leads/merge', data);
+    return response.data;
+  },
+
+  // Bulk delete all leads; soft deletes also return the IDs moved to trash
   bulkDelete: async (confirmation: string, hardDelete: boolean = false): Promise<{
     success: boolean;
     message: string;
     statistics: {
       deleted_count: number;
       delete_type: string;
+      deleted_ids?: number[];
     };
   }> => {
     const response = await api.delete('/leads/bulk-delete', {
@@ -388,6 +512,231 @@ export const leadsApi = {
   },
 };
 
+// ==================== Saved Views API ====================
+export const savedViewsApi = {
+  // List the current user's views plus views shared with the team
+  listViews: async (): Promise<SavedView[]> => {
+    const response = await api.get<SavedView[]>('/saved-views', {
+      params: { resource: 'leads' },
+    });
+    return response.data;
+  },
+
+  // Create a view
+  createView: async (data: SavedViewCreate): Promise<SavedView> => {
+    const response = await api.post<SavedView>('/saved-views', { ...data, resource: 'leads' });
+    return response.data;
+  },
+
+  // Update a view (owner only)
+  updateView: async (viewId: number, data: Partial<SavedViewCreate>): Promise<SavedView> => {
+    const response = await api.patch<SavedView>(`/saved-views/${viewId}`, data);
+    return response.data;
+  },
+
+  // Delete a view (owner only)
+  deleteView: async (viewId: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/saved-views/${viewId}`);
+    return response.data;
+  },
+};
+
+// ==================== Import Jobs API ====================
+export const importJobsApi = {
+  // Upload an Excel/CSV file; rows are processed in the background
+  createJob: async (file: File, options: ImportOptions = {}): Promise<ImportJob> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.columns) formData.append('columns', JSON.stringify(options.columns));
+    if (options.skip_rows?.length) formData.append('skip_rows', JSON.stringify(options.skip_rows));
+    if (options.source) formData.append('source', options.source);
+    if (options.source_file) formData.append('source_file', options.source_file);
+
+    const response = await api.post<ImportJob>('/import-jobs', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Get job progress
+  getJob: async (jobId: number): Promise<ImportJob> => {
+    const response = await api.get<ImportJob>(`/import-jobs/${jobId}`);
+    return response.data;
+  },
+
+  // List past and running jobs, newest first
+  listJobs: async (params?: { page?: number; page_size?: number }): Promise<PaginatedResponse<ImportJob>> => {
+    const response = await api.get<PaginatedResponse<ImportJob>>('/import-jobs', { params });
+    return response.data;
+  },
+
+  // Get the rows that failed to import
+  getJobErrors: async (jobId: number): Promise<ImportJobError[]> => {
+    const response = await api.get<ImportJobError[]>(`/import-jobs/${jobId}/errors`);
+    return response.data;
+  },
+};
+
+// ==================== Import Templates API ====================
+export const importTemplatesApi = {
+  // List mapping templates shared by the team
+  listTemplates: async (): Promise<ImportTemplate[]> => {
+    const response = await api.get<ImportTemplate[]>('/import-templates');
+    return response.data;
+  },
+
+  // Create a template
+  createTemplate: async (data: ImportTemplateCreate): Promise<ImportTemplate> => {
+    const response = await api.post<ImportTemplate>('/import-templates', data);
+    return response.data;
+  },
+
+  // Update a template
+  updateTemplate: async (templateId: number, data: Partial<ImportTemplateCreate>): Promise<ImportTemplate> => {
+    const response = await api.patch<ImportTemplate>(`/import-templates/${templateId}`, data);
+    return response.data;
+  },
+
+  // Delete a template
+  deleteTemplate: async (templateId: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/import-templates/${templateId}`);
+    return response.data;
+  },
+};
+
+// ==================== Trash API ====================
+export const trashApi = {
+  // List soft-deleted leads, most recently deleted first
+  listDeletedLeads: async (params?: TrashListParams): Promise<PaginatedResponse<Lead>> => {
+    const response = await api.get<PaginatedResponse<Lead>>('/trash/leads', { params });
+    return response.data;
+  },
+
+  // Restore leads from trash; reports per-lead results
+  restoreLeads: async (leadIds: number[]): Promise<BulkOperationResponse> => {
+    const response = await api.post<BulkOperationResponse>('/trash/leads/restore', { lead_ids: leadIds });
+    return response.data;
+  },
+
+  // Permanently delete leads from trash (admin only); reports per-lead results
+  purgeLeads: async (leadIds: number[]): Promise<BulkOperationResponse> => {
+    const response = await api.post<BulkOperationResponse>('/trash/leads/purge', { lead_ids: leadIds });
+    return response.data;
+  },
+
+  // Permanently delete everything in trash (admin only)
+  emptyTrash: async (): Promise<{ message: string; deleted_count: number }> => {
+    const response = await api.delete('/trash/leads');
+    return response.data;
+  },
+
+  // Get the retention window
+  getSettings: async (): Promise<TrashSettings> => {
+    const response = await api.get<TrashSettings>('/trash/settings');
+    return response.data;
+  },
+
+  // Update the retention window (admin only)
+  updateSettings: async (data: Pick<TrashSettings, 'retention_days'>): Promise<TrashSettings> => {
+    const response = await api.put<TrashSettings>('/trash/settings', data);
+    return response.data;
+  },
+};
+
+// ==================== Assignment Rules API ====================
+export const assignmentRulesApi = {
+  // List rules in priority order (manager only)
+  listRules: async (): Promise<AssignmentRule[]> => {
+    const response = await api.get<AssignmentRule[]>('/assignment-rules');
+    return response.data;
+  },
+
+  // Create rule
+  createRule: async (data: AssignmentRuleCreate): Promise<AssignmentRule> => {
+    const response = await api.post<AssignmentRule>('/assignment-rules', data);
+    return response.data;
+  },
+
+  // Update rule
+  updateRule: async (ruleId: number, data: Partial<AssignmentRuleCreate>): Promise<AssignmentRule> => {
+    const response = await api.patch<AssignmentRule>(`/assignment-rules/${ruleId}`, data);
+    return response.data;
+  },
+
+  // Delete rule
+  deleteRule: async (ruleId: number): Promise<{ message: string }> => {
+    const response = await api.delete<{ message: string }>(`/assignment-rules/${ruleId}`);
+    return response.data;
+  },
+
+  // Run the active rules over existing leads; leads that already have an assignee are skipped
+  applyRules: async (selection: LeadSelection): Promise<BulkOperationResponse> => {
+    const response = await api.post<BulkOperationResponse>(
+      '/assignment-rules/apply',
+      serializeLeadSelection(selection)
+    );
+    return response.data;
+  },
+};
+
+// ==================== Territories API ====================
+export const territoriesApi = {
+  // List territories
+  listTerritories: async (): Promise<Territory[]> => {
+    const response = await api.get<Territory[]>('/territories');
+    return response.data;
+  },
+
+  // Lead totals and status breakdown per territory
+  getTerritoryStats: async (): Promise<TerritoryStats[]> => {
+    const response = await api.get<TerritoryStats[]>('/territories/stats');
+    return response.data;
+  },
+
+  // Create territory (manager only)
+  createTerritory: async (data: TerritoryCreate): Promise<Territory> => {
+    const response = await api.post<Territory>('/territories', data);
+    return response.data;
+  },
+
+  // Update territory (manager only)
+  updateTerritory: async (territoryId: number, data: Partial<TerritoryCreate>): Promise<Territory> => {
+    const response = await api.patch<Territory>(`/territories/${territoryId}`, data);
+    return response.data;
+  },
+
+  // Delete territory (manager only); rules routing to it are deleted with it
+  deleteTerritory: async (territoryId: number): Promise<{ message: string }> => {
+    const response = await api.delete<{ message: string }>(`/territories/${territoryId}`);
+    return response.data;
+  },
+};
+
+// ==================== Source Costs API ====================
+export const sourceCostsApi = {
+  // List the cost entered for each source file, per source
+  listCosts: async (): Promise<SourceFileCost[]> => {
+    const response = await api.get<SourceFileCost[]>('/source-costs');
+    return response.data;
+  },
+
+  // Set a source file's cost (manager only)
+  setCost: async (source: string, sourceFile: string, cost: number): Promise<SourceFileCost> => {
+    const response = await api.put<SourceFileCost>('/source-costs', { source, source_file: sourceFile, cost });
+    return response.data;
+  },
+
+  // Remove a source file's cost (manager only)
+  deleteCost: async (source: string, sourceFile: string): Promise<{ message: string }> => {
+    const response = await api.delete<{ message: string }>('/source-costs', {
+      params: { source, source_file: sourceFile },
+    });
+    return response.data;
+  },
+};
+
 // ==================== Chat Sessions API ====================
 export const chatSessionsApi = {
   // Get all sessions for a lead
@@ -0,0 +1,54 @@
+/**
+ * Lead assignment helpers
+ * Assignable users, and labels for reassignment history and auto-assignment rules
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { usersApi } from './api';
+import type { AssignmentRule, AssignmentRuleType, LeadAssignmentMethod, Territory, User } from './types';
+
+export const ASSIGNMENT_METHOD_LABELS: Record<LeadAssignmentMethod, string> = {
+  manual: 'Manual',
+  bulk: 'Bulk update',
+  round_robin: 'Round-robin',
+  territory: 'Territory',
+};
+
+export const ASSIGNMENT_RULE_TYPE_LABELS: Record<AssignmentRuleType, string> = {
+  round_robin: 'Round-robin',
+  territory: 'Territory',
+};
+
+// Backend caps page_size at 100, which is plenty for a sales team
+const ASSIGNABLE_USERS_PAGE_SIZE = 100;
+
+// Only approved, active users can own leads
+export const useAssignableUsers = () =>
+  useQuery({
+    queryKey: ['users', 'assignable'],
+    queryFn: async () => {
+      const response = await usersApi.listUsers({
+        is_approved: true,
+        is_active: true,
+        page_size: ASSIGNABLE_USERS_PAGE_SIZE,
+      });
+      return [...response.items].sort((a, b) => a.name.localeCompare(b.name));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const getUserName = (users: User[] | undefined, userId: number) =>
+  users?.find((u) => u.id === userId)?.name || `User #${userId}`;
+
+// One-line description of who a rule assigns and when it matches
+export const describeAssignmentRule = (rule: AssignmentRule, users?: User[], territories?: Territory[]): string => {
+  if (rule.rule_type === 'round_robin') {
+    const assignees = rule.user_ids.map((id) => getUserName(users, id)).join(', ') || 'nobody';
+    return `Rotates new leads between ${assignees}`;
+  }
+
+  const territory = territories?.find((t) => t.id === rule.territory_id);
+  const name = territory?.name || rule.territory_name || 'a deleted territory';
+  const owners = territory?.user_ids.map((id) => getUserName(users, id)).join(', ');
+  return `Leads in ${name} go to its owners${owners ? ` (${owners})` : ''}`;
+};
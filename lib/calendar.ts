@@ -0,0 +1,91 @@
+/**
+ * Calendar helpers
+ * Visible date ranges and events for the follow-up calendar
+ */
+
+import { addDays, startOfDay } from './followups';
+import type { Lead } from './types';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export type CalendarEventKind = 'followup' | 'contact';
+
+export interface CalendarEvent {
+  key: string;
+  kind: CalendarEventKind;
+  lead: Lead;
+  at: Date;
+}
+
+export const CALENDAR_EVENT_KIND_LABELS: Record<CalendarEventKind, string> = {
+  followup: 'Follow-ups',
+  contact: 'Last contacts',
+};
+
+// Weeks start on Sunday
+const startOfWeek = (date: Date) => addDays(startOfDay(date), -date.getDay());
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Days shown for a view; the month view pads to whole weeks
+export const getVisibleDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'day') return [startOfDay(anchor)];
+
+  const first =
+    view === 'week' ? startOfWeek(anchor) : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const count =
+    view === 'week'
+      ? 7
+      : Math.ceil(
+          (new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate() +
+            new Date(anchor.getFullYear(), anchor.getMonth(), 1).getDay()) /
+            7
+        ) * 7;
+  return Array.from({ length: count }, (_, i) => addDays(first, i));
+};
+
+export const shiftAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1) => {
+  if (view === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  return addDays(anchor, direction * (view === 'week' ? 7 : 1));
+};
+
+export const formatCalendarTitle = (view: CalendarView, anchor: Date, days: Date[]) => {
+  if (view === 'month') return anchor.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  if (view === 'day') {
+    return anchor.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+  const first = days[0];
+  const last = days[days.length - 1];
+  return `${first.toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })}`;
+};
+
+export const buildCalendarEvents = (followupLeads: Lead[], contactLeads: Lead[]): CalendarEvent[] => [
+  ...followupLeads
+    .filter((lead) => lead.next_followup_date)
+    .map((lead) => ({
+      key: `followup-${lead.id}`,
+      kind: 'followup' as const,
+      lead,
+      at: new Date(lead.next_followup_date!),
+    })),
+  ...contactLeads
+    .filter((lead) => lead.last_contact_date)
+    .map((lead) => ({
+      key: `contact-${lead.id}`,
+      kind: 'contact' as const,
+      lead,
+      at: new Date(lead.last_contact_date!),
+    })),
+];
+
+// Same time of day on another date, or a specific hour when dropped on the day view
+export const moveToDay = (original: Date, day: Date, hour?: number) => {
+  const next = new Date(day);
+  next.setHours(hour ?? original.getHours(), hour === undefined ? original.getMinutes() : 0, 0, 0);
+  return next;
+};
@@ -0,0 +1,81 @@
+/**
+ * CSV helpers
+ */
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps always read cells starting with these as formulas
+const FORMULA_START = /^[=@\t\r]/;
+// A leading sign only matters when it starts a reference or call, e.g. "+A1" or "-cmd|' /C calc'!A0"
+const SIGNED_FORMULA = /^[+-](?:[a-z]|[\s\S]*[=(|!@])/i;
+// Numbers, percentages and phone numbers like "+1 (555) 123-4567" can't run
+const SAFE_VALUE = /^[+-]?[\d\s().,%-]+$/;
+
+// Lead data is user supplied, so text that would run as a formula is kept as text
+const isFormulaLike = (text: string) =>
+  !SAFE_VALUE.test(text) && (FORMULA_START.test(text) || SIGNED_FORMULA.test(text));
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && isFormulaLike(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+// Parse CSV text into rows of cells (quoted fields may contain commas,
+// escaped quotes and line breaks)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Trigger a browser download for generated content
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
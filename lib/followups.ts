@@ -0,0 +1,88 @@
+/**
+ * Follow-up helpers
+ * Presets and due-date buckets for next_followup_date
+ */
+
+import type { Lead } from './types';
+
+export type FollowupBucket = 'overdue' | 'today' | 'upcoming';
+
+export const FOLLOWUP_BUCKET_LABELS: Record<FollowupBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Due Today',
+  upcoming: 'Upcoming',
+};
+
+export const FOLLOWUP_BUCKET_COLORS: Record<FollowupBucket, string> = {
+  overdue: 'bg-red-100 text-red-800',
+  today: 'bg-yellow-100 text-yellow-800',
+  upcoming: 'bg-green-100 text-green-800',
+};
+
+export interface FollowupPreset {
+  label: string;
+  apply: (now: Date) => Date;
+}
+
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Day-based presets land at 9:00 so follow-ups are not scheduled overnight
+const atNineAm = (date: Date) => {
+  const next = new Date(date);
+  next.setHours(9, 0, 0, 0);
+  return next;
+};
+
+export const FOLLOWUP_PRESETS: FollowupPreset[] = [
+  { label: '+1 hour', apply: (now) => new Date(now.getTime() + 60 * 60 * 1000) },
+  { label: 'Tomorrow', apply: (now) => atNineAm(addDays(now, 1)) },
+  { label: '+2 days', apply: (now) => atNineAm(addDays(now, 2)) },
+  { label: '+1 week', apply: (now) => atNineAm(addDays(now, 7)) },
+  { label: '+2 weeks', apply: (now) => atNineAm(addDays(now, 14)) },
+  { label: '+1 month', apply: (now) => atNineAm(addDays(now, 30)) },
+];
+
+export const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+export const getFollowupBucket = (followupDate: string, now: Date = new Date()): FollowupBucket => {
+  const due = new Date(followupDate);
+  if (due < now) return 'overdue';
+  return due < addDays(startOfDay(now), 1) ? 'today' : 'upcoming';
+};
+
+// Time of day for follow-ups due today, with the date for any other day
+export const formatFollowupTime = (followupDate: string, now: Date = new Date()) => {
+  const due = new Date(followupDate);
+  const isToday = startOfDay(due).getTime() === startOfDay(now).getTime();
+  return due.toLocaleString([], {
+    ...(isToday ? {} : { month: 'short', day: 'numeric' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// <input type="datetime-local"> works in local time, not UTC
+export const toDateTimeLocalValue = (isoDate?: string | null) => {
+  if (!isoDate) return '';
+  const date = new Date(isoDate);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+// Changes that record a contact made now, optionally clearing the follow-up it satisfied
+export const markContactedChanges = (lead: Lead, clearFollowup: boolean): Partial<Lead> => {
+  const now = new Date().toISOString();
+  return {
+    last_contact_date: now,
+    ...(lead.first_contact_date ? {} : { first_contact_date: now }),
+    ...(clearFollowup ? { next_followup_date: null } : {}),
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * Import job helpers
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { importJobsApi } from './api';
+import { downloadFile, toCsv } from './csv';
+import { ImportJob, ImportJobStatus } from './types';
+
+const POLL_INTERVAL = 2000;
+
+export const isImportJobFinished = (job: ImportJob) =>
+  job.status === ImportJobStatus.COMPLETED || job.status === ImportJobStatus.FAILED;
+
+export const importJobPercent = (job: ImportJob) =>
+  job.total_rows ? Math.min(100, Math.round((job.processed_rows / job.total_rows) * 100)) : 0;
+
+// Poll a job until it finishes
+export const useImportJob = (jobId: number) =>
+  useQuery({
+    queryKey: ['import-jobs', jobId],
+    queryFn: () => importJobsApi.getJob(jobId),
+    refetchInterval: (query) => (query.state.data && isImportJobFinished(query.state.data) ? false : POLL_INTERVAL),
+  });
+
+// Download a job's failed rows as CSV, with the original cells after the error
+export const downloadImportErrors = async (job: ImportJob) => {
+  const errors = await importJobsApi.getJobErrors(job.id);
+  const dataColumns = Array.from(new Set(errors.flatMap((e) => Object.keys(e.data || {}))));
+
+  downloadFile(
+    toCsv(
+      ['Row', 'Error', ...dataColumns],
+      errors.map((e) => [e.row, e.error, ...dataColumns.map((column) => e.data?.[column])])
+    ),
+    `import-${job.id}-errors.csv`,
+    'text/csv;charset=utf-8'
+  );
+};
@@ -0,0 +1,98 @@
+/**
+ * Lead export helpers
+ */
+
+import { leadsApi } from './api';
+import { downloadFile, toCsv } from './csv';
+import { LEAD_FIELDS, getLeadFieldLabel } from './lead-fields';
+import type { Lead, LeadListParams } from './types';
+
+// Backend caps page_size at 100
+const EXPORT_PAGE_SIZE = 100;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const ALL_EXPORT_FIELDS: Array<keyof Lead> = LEAD_FIELDS.map((f) => f.key);
+
+// Fetch every lead matching a filter, page by page, reporting progress
+// after each page and stopping early when the signal is aborted or
+// maxLeads have been loaded
+export const fetchAllLeads = async (
+  params: LeadListParams,
+  options: { onProgress?: (loaded: number, total: number) => void; signal?: AbortSignal; maxLeads?: number } = {}
+): Promise<Lead[]> => {
+  const leads: Lead[] = [];
+  let page = 1;
+  let total = Infinity;
+
+  while (leads.length < Math.min(total, options.maxLeads ?? Infinity)) {
+    options.signal?.throwIfAborted();
+    const response = await leadsApi.listLeads({ ...params, page, page_size: EXPORT_PAGE_SIZE });
+    total = response.total;
+    leads.push(...response.items);
+    options.onProgress?.(leads.length, total);
+    if (response.items.length === 0) break;
+    page += 1;
+  }
+
+  return options.maxLeads ? leads.slice(0, options.maxLeads) : leads;
+};
+
+const cellValue = (lead: Lead, key: keyof Lead) => {
+  const value = lead[key];
+  return value === null || value === undefined ? undefined : (value as string | number | boolean);
+};
+
+export const leadsToCsv = (leads: Lead[], fields: Array<keyof Lead> = ALL_EXPORT_FIELDS): string =>
+  toCsv(
+    fields.map(getLeadFieldLabel),
+    leads.map((lead) => fields.map((key) => cellValue(lead, key)))
+  );
+
+// exceljs is loaded on demand so it stays out of the main bundle
+export const leadsToXlsx = async (
+  leads: Lead[],
+  fields: Array<keyof Lead> = ALL_EXPORT_FIELDS
+): Promise<ArrayBuffer> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Leads');
+  const dateFields = new Set(LEAD_FIELDS.filter((f) => f.type === 'date').map((f) => f.key));
+
+  sheet.columns = fields.map((key) => ({
+    header: getLeadFieldLabel(key),
+    key,
+    width: Math.max(12, getLeadFieldLabel(key).length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  leads.forEach((lead) => {
+    sheet.addRow(
+      fields.map((key) => {
+        const value = cellValue(lead, key);
+        return dateFields.has(key) && value ? new Date(String(value)) : value;
+      })
+    );
+  });
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+};
+
+// Build and download an export file from already-fetched leads
+export const downloadLeadsExport = async (
+  leads: Lead[],
+  fields: Array<keyof Lead>,
+  format: ExportFormat
+) => {
+  const filename = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'xlsx') {
+    downloadFile(
+      await leadsToXlsx(leads, fields),
+      filename,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  } else {
+    downloadFile(leadsToCsv(leads, fields), filename, 'text/csv;charset=utf-8');
+  }
+};
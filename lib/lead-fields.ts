@@ -0,0 +1,158 @@
+/**
+ * Lead field catalogue
+ * Human-readable labels for every Lead attribute, grouped like the detail page
+ */
+
+import type { Lead, LeadStatus } from './types';
+
+export type LeadFieldGroup =
+  | 'contact'
+  | 'details'
+  | 'location'
+  | 'mailing'
+  | 'owners'
+  | 'business'
+  | 'communication'
+  | 'integration'
+  | 'dates'
+  | 'notes';
+
+export interface LeadFieldDefinition {
+  key: keyof Lead;
+  label: string;
+  group: LeadFieldGroup;
+  type?: 'text' | 'number' | 'date' | 'status' | 'priority';
+}
+
+export const LEAD_FIELD_GROUP_LABELS: Record<LeadFieldGroup, string> = {
+  contact: 'Contact',
+  details: 'Lead Details',
+  location: 'Physical Address',
+  mailing: 'Mailing Address',
+  owners: 'Property Owners',
+  business: 'Business',
+  communication: 'Communication',
+  integration: 'Integrations',
+  dates: 'Dates',
+  notes: 'Notes & Tags',
+};
+
+export const LEAD_FIELDS: LeadFieldDefinition[] = [
+  { key: 'id', label: 'Lead ID', group: 'details', type: 'number' },
+  { key: 'name', label: 'Name', group: 'contact' },
+  { key: 'email', label: 'Email', group: 'contact' },
+  { key: 'email_2', label: 'Email 2', group: 'contact' },
+  { key: 'phone', label: 'Phone', group: 'contact' },
+  { key: 'phone_2', label: 'Phone 2', group: 'contact' },
+  { key: 'phone_3', label: 'Phone 3', group: 'contact' },
+  { key: 'phone_4', label: 'Phone 4', group: 'contact' },
+  { key: 'landline_1', label: 'Landline 1', group: 'contact' },
+  { key: 'landline_2', label: 'Landline 2', group: 'contact' },
+  { key: 'landline_3', label: 'Landline 3', group: 'contact' },
+  { key: 'landline_4', label: 'Landline 4', group: 'contact' },
+  { key: 'company', label: 'Company', group: 'contact' },
+  { key: 'status', label: 'Status', group: 'details', type: 'status' },
+  { key: 'source', label: 'Source', group: 'details' },
+  { key: 'source_file', label: 'Source File', group: 'details' },
+  { key: 'priority', label: 'Priority', group: 'details', type: 'priority' },
+  { key: 'assigned_to', label: 'Assigned To', group: 'details' },
+  { key: 'address', label: 'Address', group: 'location' },
+  { key: 'city', label: 'City', group: 'location' },
+  { key: 'state', label: 'State', group: 'location' },
+  { key: 'zip_code', label: 'Zip Code', group: 'location' },
+  { key: 'country', label: 'Country', group: 'location' },
+  { key: 'mailing_address', label: 'Mailing Address', group: 'mailing' },
+  { key: 'mailing_city', label: 'Mailing City', group: 'mailing' },
+  { key: 'mailing_state', label: 'Mailing State', group: 'mailing' },
+  { key: 'mailing_zip', label: 'Mailing Zip', group: 'mailing' },
+  { key: 'owner_1_first_name', label: 'Owner 1 First Name', group: 'owners' },
+  { key: 'owner_1_last_name', label: 'Owner 1 Last Name', group: 'owners' },
+  { key: 'owner_2_first_name', label: 'Owner 2 First Name', group: 'owners' },
+  { key: 'owner_2_last_name', label: 'Owner 2 Last Name', group: 'owners' },
+  { key: 'service_interest', label: 'Service Interest', group: 'business' },
+  { key: 'estimated_value', label: 'Estimated Value', group: 'business', type: 'number' },
+  { key: 'project_timeline', label: 'Project Timeline', group: 'business' },
+  { key: 'preferred_contact_method', label: 'Preferred Contact Method', group: 'communication' },
+  { key: 'preferred_contact_time', label: 'Preferred Contact Time', group: 'communication' },
+  { key: 'telegram_user_id', label: 'Telegram User ID', group: 'integration' },
+  { key: 'telegram_username', label: 'Telegram Username', group: 'integration' },
+  { key: 'n8n_workflow_id', label: 'n8n Workflow ID', group: 'integration' },
+  { key: 'external_id', label: 'External ID', group: 'integration' },
+  { key: 'first_contact_date', label: 'First Contact', group: 'dates', type: 'date' },
+  { key: 'last_contact_date', label: 'Last Contact', group: 'dates', type: 'date' },
+  { key: 'next_followup_date', label: 'Next Follow-up', group: 'dates', type: 'date' },
+  { key: 'created_at', label: 'Created', group: 'dates', type: 'date' },
+  { key: 'updated_at', label: 'Last Updated', group: 'dates', type: 'date' },
+  { key: 'notes_summary', label: 'Notes Summary', group: 'notes' },
+  { key: 'notes', label: 'Notes', group: 'notes' },
+  { key: 'tags', label: 'Tags', group: 'notes' },
+];
+
+export const STATUS_COLORS: Record<LeadStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  contacted: 'bg-yellow-100 text-yellow-800',
+  qualified: 'bg-purple-100 text-purple-800',
+  proposal: 'bg-indigo-100 text-indigo-800',
+  negotiation: 'bg-orange-100 text-orange-800',
+  won: 'bg-green-100 text-green-800',
+  lost: 'bg-red-100 text-red-800',
+};
+
+// Plain colors for map markers and charts, where Tailwind classes can't be used
+export const STATUS_HEX_COLORS: Record<LeadStatus, string> = {
+  new: '#3b82f6',
+  contacted: '#eab308',
+  qualified: '#a855f7',
+  proposal: '#6366f1',
+  negotiation: '#f97316',
+  won: '#22c55e',
+  lost: '#ef4444',
+};
+
+export const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  proposal: 'Proposal',
+  negotiation: 'Negotiation',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+export const PRIORITY_LABELS: Record<number, string> = {
+  1: '🔴 High',
+  2: '🟠 Medium-High',
+  3: '🟡 Normal',
+  4: '🟢 Medium-Low',
+  5: '⚪ Low',
+};
+
+// Every number a lead can be reached at, mobile first
+export const PHONE_FIELDS = [
+  'phone',
+  'phone_2',
+  'phone_3',
+  'phone_4',
+  'landline_1',
+  'landline_2',
+  'landline_3',
+  'landline_4',
+] as const satisfies ReadonlyArray<keyof Lead>;
+
+export const getLeadFieldLabel = (key: keyof Lead): string =>
+  LEAD_FIELDS.find((f) => f.key === key)?.label || String(key);
+
+// Plain-text rendering of a field value (used by tables and exports)
+export const formatLeadFieldValue = (lead: Partial<Lead>, key: keyof Lead): string => {
+  const value = lead[key];
+  if (value === undefined || value === null || value === '') return '';
+
+  const type = LEAD_FIELDS.find((f) => f.key === key)?.type;
+  if (type === 'date') {
+    return new Date(String(value)).toLocaleString();
+  }
+  if (type === 'priority') {
+    return PRIORITY_LABELS[Number(value)] || String(value);
+  }
+  return String(value);
+};
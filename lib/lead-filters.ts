@@ -0,0 +1,153 @@
+/**
+ * Lead filter helpers
+ * Defaults, query string round-tripping and conversion of the leads list
+ * filter state into API parameters
+ */
+
+import { LeadStatus, type LeadFilters, type LeadListParams, type LeadSortField } from './types';
+
+export const LEAD_SORT_FIELDS: LeadSortField[] = [
+  'created_at',
+  'updated_at',
+  'priority',
+  'estimated_value',
+  'next_followup_date',
+  'last_contact_date',
+  'city',
+  'status',
+];
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+export const DEFAULT_PAGE_SIZE = 20;
+
+const TEXT_FILTER_KEYS = ['search', 'source', 'city', 'state', 'name', 'phone', 'email', 'assignee', 'territory', 'ids'] as const;
+const FLAG_FILTER_KEYS = ['has_phone', 'has_email', 'won', 'mine'] as const;
+
+// Query string keys that describe list state (everything except the filters themselves)
+const LIST_STATE_KEYS = ['page', 'page_size', 'view'];
+
+export const DEFAULT_LEAD_FILTERS: LeadFilters = {
+  search: '',
+  status: 'ALL',
+  source: '',
+  city: '',
+  state: '',
+  name: '',
+  phone: '',
+  email: '',
+  has_phone: false,
+  has_email: false,
+  won: false,
+  mine: false,
+  assignee: '',
+  territory: '',
+  ids: '',
+  sort_by: 'created_at',
+  sort_order: 'desc',
+};
+
+const LEAD_STATUSES = Object.values(LeadStatus);
+
+// Statuses are lowercase, but older links and saved views used uppercase ones
+const toLeadStatus = (value?: string | null): LeadStatus | undefined => {
+  const status = value?.toLowerCase() as LeadStatus | undefined;
+  return status && LEAD_STATUSES.includes(status) ? status : undefined;
+};
+
+// Fill in any filters missing from a (possibly older) saved view
+export const withDefaultFilters = (filters?: Partial<LeadFilters>): LeadFilters => ({
+  ...DEFAULT_LEAD_FILTERS,
+  ...filters,
+  status: toLeadStatus(filters?.status) || 'ALL',
+});
+
+export const parseLeadIds = (value: string): number[] =>
+  value
+    .split(',')
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+export const toLeadListParams = (filters: LeadFilters): LeadListParams => ({
+  search: filters.search || undefined,
+  status: filters.status !== 'ALL' ? filters.status : undefined,
+  statuses: filters.won ? [LeadStatus.WON] : undefined,
+  source: filters.source || undefined,
+  city: filters.city || undefined,
+  state: filters.state || undefined,
+  name: filters.name || undefined,
+  phone: filters.phone || undefined,
+  email: filters.email || undefined,
+  has_phone: filters.has_phone || undefined,
+  has_email: filters.has_email || undefined,
+  assigned_to_me: filters.mine || undefined,
+  assigned_to_id: filters.assignee && filters.assignee !== 'none' ? Number(filters.assignee) : undefined,
+  unassigned: filters.assignee === 'none' || undefined,
+  territory_id: filters.territory ? Number(filters.territory) : undefined,
+  lead_ids: filters.ids ? parseLeadIds(filters.ids) : undefined,
+  sort_by: filters.sort_by,
+  sort_order: filters.sort_order,
+});
+
+export const isSameFilters = (a: LeadFilters, b: LeadFilters): boolean =>
+  (Object.keys(DEFAULT_LEAD_FILTERS) as Array<keyof LeadFilters>).every((key) => a[key] === b[key]);
+
+// Minimal interface shared by URLSearchParams and Next's ReadonlyURLSearchParams
+interface SearchParamsLike {
+  get(name: string): string | null;
+  keys(): IterableIterator<string>;
+}
+
+export const parseLeadFilters = (params: SearchParamsLike): LeadFilters => {
+  const filters: LeadFilters = { ...DEFAULT_LEAD_FILTERS };
+
+  TEXT_FILTER_KEYS.forEach((key) => {
+    filters[key] = params.get(key) || '';
+  });
+  FLAG_FILTER_KEYS.forEach((key) => {
+    filters[key] = params.get(key) === '1';
+  });
+
+  const status = toLeadStatus(params.get('status'));
+  if (status) filters.status = status;
+
+  const sort = params.get('sort') as LeadSortField | null;
+  if (sort && LEAD_SORT_FIELDS.includes(sort)) filters.sort_by = sort;
+
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') filters.sort_order = order;
+
+  return filters;
+};
+
+export const parsePage = (value: string | null): number => Math.max(1, Number(value) || 1);
+
+export const parsePageSize = (value: string | null): number => {
+  const size = Number(value);
+  return PAGE_SIZE_OPTIONS.includes(size) ? size : DEFAULT_PAGE_SIZE;
+};
+
+export const hasLeadFilterParams = (params: SearchParamsLike): boolean =>
+  Array.from(params.keys()).some((key) => !LIST_STATE_KEYS.includes(key));
+
+// Serialize list state, omitting defaults so links stay short
+export const buildLeadsQueryString = (
+  filters: LeadFilters,
+  options: { page?: number; pageSize?: number; viewId?: number | null } = {}
+): string => {
+  const params = new URLSearchParams();
+
+  if (options.viewId) params.set('view', String(options.viewId));
+  TEXT_FILTER_KEYS.forEach((key) => {
+    if (filters[key]) params.set(key, filters[key]);
+  });
+  if (filters.status !== 'ALL') params.set('status', filters.status);
+  FLAG_FILTER_KEYS.forEach((key) => {
+    if (filters[key]) params.set(key, '1');
+  });
+  if (filters.sort_by !== DEFAULT_LEAD_FILTERS.sort_by) params.set('sort', filters.sort_by);
+  if (filters.sort_order !== DEFAULT_LEAD_FILTERS.sort_order) params.set('order', filters.sort_order);
+  if (options.page && options.page > 1) params.set('page', String(options.page));
+  if (options.pageSize && options.pageSize !== DEFAULT_PAGE_SIZE) params.set('page_size', String(options.pageSize));
+
+  return params.toString();
+};
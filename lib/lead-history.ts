@@ -0,0 +1,57 @@
+/**
+ * Lead field history helpers
+ */
+
+import { formatLeadFieldValue, STATUS_LABELS } from './lead-fields';
+import type { Lead, LeadChangeSource, LeadFieldChange, LeadStatus } from './types';
+
+export const LEAD_CHANGE_SOURCE_LABELS: Record<LeadChangeSource, string> = {
+  detail_page: 'Lead detail page',
+  leads_table: 'Leads table',
+  pipeline: 'Pipeline board',
+  followups: 'Follow-ups page',
+  calendar: 'Calendar',
+  route_planner: 'Route planner',
+  bulk_update: 'Bulk update',
+  import: 'Import',
+  assignment_rule: 'Auto-assignment',
+  merge: 'Merge',
+  revert: 'Revert',
+  api: 'API',
+};
+
+export const formatHistoryValue = (field: keyof Lead, value: LeadFieldChange['old_value']): string => {
+  if (value === null || value === '') return '';
+  if (field === 'status') return STATUS_LABELS[String(value).toLowerCase() as LeadStatus] || String(value);
+  return formatLeadFieldValue({ [field]: value }, field);
+};
+
+export interface TextDiff {
+  prefix: string;
+  removed: string;
+  added: string;
+  suffix: string;
+}
+
+// Splits two values into their shared start and end and the part that changed,
+// which is enough to highlight edits to phones, addresses and short text
+export const diffText = (before: string, after: string): TextDiff => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    prefix: before.slice(0, start),
+    removed: before.slice(start, before.length - end),
+    added: after.slice(start, after.length - end),
+    suffix: before.slice(before.length - end),
+  };
+};
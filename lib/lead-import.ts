@@ -0,0 +1,213 @@
+/**
+ * Lead import helpers
+ * Browser-side parsing, column mapping and validation of lead spreadsheets
+ */
+
+import { parseCsv } from './csv';
+import { LEAD_FIELDS, PHONE_FIELDS } from './lead-fields';
+import type { ImportColumn, ImportColumnMapping, ImportTemplate, Lead } from './types';
+
+export interface ParsedSheetRow {
+  number: number; // Spreadsheet row number (header is row 1)
+  cells: string[];
+}
+
+export interface ParsedSheet {
+  headers: string[]; // Display names, unique and never blank
+  rawHeaders: string[]; // As they are in the file, by the same position
+  rows: ParsedSheetRow[];
+}
+
+export interface ImportIssue {
+  row: number;
+  header: string;
+  field: keyof Lead;
+  value: string;
+  message: string;
+}
+
+// System-managed fields can't be set from a spreadsheet; assigned_to is the
+// assignee's name, derived by the backend from assigned_to_id
+const NON_IMPORTABLE_FIELDS: Array<keyof Lead> = ['id', 'created_at', 'updated_at', 'assigned_to'];
+
+export const IMPORTABLE_FIELDS = LEAD_FIELDS.filter((f) => !NON_IMPORTABLE_FIELDS.includes(f.key));
+
+// Common vendor header spellings that don't match a field key or label
+const HEADER_ALIASES: Record<string, keyof Lead> = {
+  full_name: 'name',
+  email_1: 'email',
+  email1: 'email',
+  email_address: 'email',
+  email2: 'email_2',
+  phone_1: 'phone',
+  phone1: 'phone',
+  phone_number: 'phone',
+  mobile: 'phone',
+  cell: 'phone',
+  phone2: 'phone_2',
+  phone3: 'phone_3',
+  phone4: 'phone_4',
+  landline1: 'landline_1',
+  landline2: 'landline_2',
+  landline3: 'landline_3',
+  landline4: 'landline_4',
+  street: 'address',
+  street_address: 'address',
+  property_address: 'address',
+  zip: 'zip_code',
+  zipcode: 'zip_code',
+  postal_code: 'zip_code',
+  mailing_zip_code: 'mailing_zip',
+  mailing_street: 'mailing_address',
+};
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Blank headers get a positional name; repeated headers get a numeric suffix
+const uniqueHeaders = (headers: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map((raw, index) => {
+    const header = raw.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+};
+
+const readRows = async (file: File): Promise<ParsedSheetRow[]> => {
+  if (/\.csv$/i.test(file.name)) {
+    return parseCsv(await file.text()).map((cells, index) => ({ number: index + 1, cells }));
+  }
+  // exceljs only reads the newer .xlsx format
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls files can\'t be read here. Open the file in Excel and save it as .xlsx or .csv, then upload that.');
+  }
+
+  // exceljs is loaded on demand so it stays out of the main bundle
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const rows: ParsedSheetRow[] = [];
+  sheet.eachRow((row, number) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cell.text;
+    });
+    rows.push({ number, cells: Array.from(cells, (cell) => cell ?? '') });
+  });
+  return rows;
+};
+
+// Parse the first sheet of an .xlsx or .csv file (.xls is rejected); the first row holds the headers
+export const parseLeadFile = async (file: File): Promise<ParsedSheet> => {
+  const [headerRow, ...rows] = await readRows(file);
+  if (!headerRow) throw new Error('The file is empty');
+
+  return {
+    headers: uniqueHeaders(headerRow.cells),
+    rawHeaders: headerRow.cells,
+    rows: rows.filter((row) => row.cells.some((cell) => cell.trim() !== '')),
+  };
+};
+
+// Best-effort mapping from header names; each field is used at most once
+export const guessMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<keyof Lead>();
+
+  headers.forEach((header) => {
+    const normalized = normalizeHeader(header);
+    const field =
+      IMPORTABLE_FIELDS.find((f) => f.key === normalized || normalizeHeader(f.label) === normalized)?.key ||
+      HEADER_ALIASES[normalized];
+    if (field && !used.has(field)) {
+      mapping[header] = field;
+      used.add(field);
+    }
+  });
+
+  return mapping;
+};
+
+// The mapping as columns the server can find in the raw file
+export const toImportColumns = (sheet: ParsedSheet, mapping: ImportColumnMapping): ImportColumn[] =>
+  sheet.headers.flatMap((header, index) =>
+    mapping[header] ? [{ index, header: sheet.rawHeaders[index] || '', field: mapping[header] }] : []
+  );
+
+// A saved column applies when the file has the same header at the same position
+const columnMatches = (sheet: ParsedSheet, column: ImportColumn) =>
+  column.index < sheet.headers.length && (sheet.rawHeaders[column.index] || '').trim() === column.header.trim();
+
+export const fromImportColumns = (sheet: ParsedSheet, columns: ImportColumn[]): ImportColumnMapping =>
+  Object.fromEntries(
+    columns
+      .filter((column) => columnMatches(sheet, column) && IMPORTABLE_FIELDS.some((f) => f.key === column.field))
+      .map((column) => [sheet.headers[column.index], column.field])
+  );
+
+// A template applies when every column it maps is where it expects in the sheet
+export const templateMatchesSheet = (template: ImportTemplate, sheet: ParsedSheet) =>
+  template.columns.length > 0 && template.columns.every((column) => columnMatches(sheet, column));
+
+// Prefer a template whose vendor appears in the file name, then the one covering most columns
+export const findTemplateForFile = (
+  templates: ImportTemplate[],
+  fileName: string,
+  sheet: ParsedSheet
+): ImportTemplate | undefined => {
+  const matching = templates.filter((t) => templateMatchesSheet(t, sheet));
+  const lowerName = fileName.toLowerCase();
+  return (
+    matching.find((t) => t.vendor && lowerName.includes(t.vendor.toLowerCase())) ||
+    [...matching].sort((a, b) => b.columns.length - a.columns.length)[0]
+  );
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ZIP_PATTERN = /^\d{5}(-\d{4})?$/;
+
+// US numbers: 10 digits, optionally prefixed with country code 1
+const isValidPhone = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 10 || (digits.length === 11 && digits.startsWith('1'));
+};
+
+const FIELD_VALIDATORS: Partial<Record<keyof Lead, { test: (value: string) => boolean; message: string }>> = {};
+(['email', 'email_2'] as const).forEach((key) => {
+  FIELD_VALIDATORS[key] = { test: (v) => EMAIL_PATTERN.test(v), message: 'Invalid email address' };
+});
+PHONE_FIELDS.forEach((key) => {
+  FIELD_VALIDATORS[key] = { test: isValidPhone, message: 'Phone must have 10 digits' };
+});
+(['zip_code', 'mailing_zip'] as const).forEach((key) => {
+  FIELD_VALIDATORS[key] = { test: (v) => ZIP_PATTERN.test(v), message: 'Zip must be 12345 or 12345-6789' };
+});
+FIELD_VALIDATORS.estimated_value = {
+  test: (v) => !Number.isNaN(Number(v.replace(/[$,]/g, ''))),
+  message: 'Must be a number',
+};
+
+// Check the format of every mapped, non-empty cell
+export const validateRows = (sheet: ParsedSheet, mapping: ImportColumnMapping): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  const checks = sheet.headers
+    .map((header, index) => ({ header, index, field: mapping[header] }))
+    .filter((c) => c.field && FIELD_VALIDATORS[c.field]);
+
+  sheet.rows.forEach((row) => {
+    checks.forEach(({ header, index, field }) => {
+      const value = (row.cells[index] || '').trim();
+      const validator = FIELD_VALIDATORS[field];
+      if (value && validator && !validator.test(value)) {
+        issues.push({ row: row.number, header, field, value, message: validator.message });
+      }
+    });
+  });
+
+  return issues;
+};
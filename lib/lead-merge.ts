@@ -0,0 +1,36 @@
+/**
+ * Lead merge helpers
+ * Field-by-field winner selection shared by duplicate review and manual merge
+ */
+
+import { LEAD_FIELDS } from './lead-fields';
+import type { Lead, LeadFieldWinners } from './types';
+
+// System-managed fields are never copied between leads; assigned_to is derived
+// by the backend from assigned_to_id
+const NON_MERGEABLE_FIELDS: Array<keyof Lead> = ['id', 'created_at', 'updated_at', 'assigned_to'];
+
+export const MERGEABLE_FIELDS = LEAD_FIELDS.filter((f) => !NON_MERGEABLE_FIELDS.includes(f.key));
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+// Fields where at least two leads hold different values
+export const getDifferingFields = (leads: Lead[]): Array<keyof Lead> =>
+  MERGEABLE_FIELDS.map((f) => f.key).filter(
+    (key) => new Set(leads.map((lead) => (isEmpty(lead[key]) ? '' : String(lead[key])))).size > 1
+  );
+
+// Keep the keeper's value, falling back to the first other lead that has one
+export const getDefaultWinners = (leads: Lead[], keeperId: number): LeadFieldWinners => {
+  const keeper = leads.find((lead) => lead.id === keeperId);
+  const winners: LeadFieldWinners = {};
+  if (!keeper) return winners;
+
+  getDifferingFields(leads).forEach((key) => {
+    const source = isEmpty(keeper[key]) ? leads.find((lead) => !isEmpty(lead[key])) : keeper;
+    winners[key] = (source || keeper).id;
+  });
+  return winners;
+};
+
+export const hasFieldValue = (lead: Lead, key: keyof Lead) => !isEmpty(lead[key]);
@@ -0,0 +1,48 @@
+/**
+ * Lead stats helpers
+ * Headline figures derived from the grouped counts of the stats endpoint
+ */
+
+import { LeadStatus, type LeadStats, type LeadStatsGroup } from './types';
+
+// Statuses still being worked; their estimated_value is the open pipeline
+export const OPEN_STATUSES: LeadStatus[] = [
+  LeadStatus.NEW,
+  LeadStatus.CONTACTED,
+  LeadStatus.QUALIFIED,
+  LeadStatus.PROPOSAL,
+  LeadStatus.NEGOTIATION,
+];
+
+export interface LeadStatsSummary {
+  total: number;
+  won: number;
+  lost: number;
+  open: number;
+  conversionRate: number; // Won share of all leads, 0-1
+  closeRate: number; // Won share of closed (won + lost) leads, 0-1
+  pipelineValue: number; // estimated_value of open leads
+  wonValue: number;
+}
+
+const sumGroups = (groups: LeadStatsGroup[], statuses: LeadStatus[], field: 'count' | 'value') =>
+  groups.filter((g) => statuses.includes(g.key as LeadStatus)).reduce((sum, g) => sum + g[field], 0);
+
+export const summarizeLeadStats = (stats: LeadStats): LeadStatsSummary => {
+  const won = sumGroups(stats.by_status, [LeadStatus.WON], 'count');
+  const lost = sumGroups(stats.by_status, [LeadStatus.LOST], 'count');
+  return {
+    total: stats.total,
+    won,
+    lost,
+    open: sumGroups(stats.by_status, OPEN_STATUSES, 'count'),
+    conversionRate: stats.total > 0 ? won / stats.total : 0,
+    closeRate: won + lost > 0 ? won / (won + lost) : 0,
+    pipelineValue: sumGroups(stats.by_status, OPEN_STATUSES, 'value'),
+    wonValue: sumGroups(stats.by_status, [LeadStatus.WON], 'value'),
+  };
+};
+
+export const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
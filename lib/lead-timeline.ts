@@ -0,0 +1,100 @@
+/**
+ * Lead timeline helpers
+ * Merges a lead's activities, notes and chat sessions into one chronological feed
+ */
+
+import { getLeadFieldLabel } from './lead-fields';
+import { formatHistoryValue } from './lead-history';
+import type { Activity, ChatSession, Lead, Note } from './types';
+
+export type LeadTimelineItemType = 'activity' | 'note' | 'status_change' | 'chat_session' | 'field_edit';
+
+export interface LeadTimelineItem {
+  key: string;
+  type: LeadTimelineItemType;
+  at: string;
+  title: string;
+  description?: string;
+  markdown?: boolean; // Description is note markdown
+  actor?: string;
+}
+
+export const LEAD_TIMELINE_TYPE_LABELS: Record<LeadTimelineItemType, string> = {
+  activity: 'Activities',
+  note: 'Notes',
+  status_change: 'Status Changes',
+  chat_session: 'Chat Sessions',
+  field_edit: 'Field Edits',
+};
+
+// 'web_chat' -> 'Web chat'
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+const formatValue = (field: keyof Lead, value: Activity['old_value']) => formatHistoryValue(field, value ?? null) || '—';
+
+const activityToItem = (activity: Activity): LeadTimelineItem => {
+  const base = {
+    key: `activity-${activity.id}`,
+    at: activity.created_at,
+    actor: activity.created_by,
+  };
+
+  if (activity.activity_type === 'status_change') {
+    return {
+      ...base,
+      type: 'status_change',
+      title: `Status: ${formatValue('status', activity.old_value)} → ${formatValue('status', activity.new_value)}`,
+      description: activity.description,
+    };
+  }
+  if (activity.activity_type === 'field_update' && activity.field) {
+    return {
+      ...base,
+      type: 'field_edit',
+      title: `${getLeadFieldLabel(activity.field)}: ${formatValue(activity.field, activity.old_value)} → ${formatValue(
+        activity.field,
+        activity.new_value
+      )}`,
+      description: activity.description,
+    };
+  }
+  return {
+    ...base,
+    type: 'activity',
+    title: humanize(activity.activity_type),
+    description: activity.description,
+  };
+};
+
+const noteToItem = (note: Note): LeadTimelineItem => ({
+  key: `note-${note.id}`,
+  type: 'note',
+  at: note.created_at,
+  title: note.is_pinned ? 'Pinned note' : 'Note',
+  description: note.content,
+  markdown: true,
+  actor: note.created_by_name || note.created_by,
+});
+
+const chatSessionToItem = (session: ChatSession): LeadTimelineItem => ({
+  key: `chat-${session.id}`,
+  type: 'chat_session',
+  at: session.started_at || session.created_at,
+  title: `${humanize(session.channel)} chat (${session.status}) · ${session.message_count} message${
+    session.message_count === 1 ? '' : 's'
+  }`,
+  description: session.summary || session.initial_message,
+  actor: session.handled_by,
+});
+
+// Newest first
+export const buildLeadTimeline = (sources: {
+  activities?: Activity[];
+  notes?: Note[];
+  chatSessions?: ChatSession[];
+}): LeadTimelineItem[] =>
+  [
+    ...(sources.activities || []).map(activityToItem),
+    ...(sources.notes || []).map(noteToItem),
+    ...(sources.chatSessions || []).map(chatSessionToItem),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
@@ -0,0 +1,109 @@
+/**
+ * Lead trend helpers
+ * Date ranges, previous-period comparison and labels for the dashboard charts
+ */
+
+import { addDays, startOfDay } from './followups';
+import type { LeadTrendPoint, LeadTrendsParams, TrendInterval } from './types';
+
+export interface DateRange {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export type DateRangePreset = '7d' | '30d' | '90d' | '12m' | 'custom';
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '12m': 'Last 12 months',
+  custom: 'Custom',
+};
+
+export const TREND_INTERVAL_LABELS: Record<TrendInterval, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// Ranges end after today, so today's leads are included
+export const getPresetRange = (preset: Exclude<DateRangePreset, 'custom'>, now: Date = new Date()): DateRange => {
+  const end = addDays(startOfDay(now), 1);
+  if (preset === '12m') {
+    const start = new Date(end);
+    start.setMonth(start.getMonth() - 12);
+    return { start, end };
+  }
+  return { start: addDays(end, -Number(preset.replace('d', ''))), end };
+};
+
+// The same length of time immediately before the range
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const length = range.end.getTime() - range.start.getTime();
+  return { start: new Date(range.start.getTime() - length), end: range.start };
+};
+
+// Position of a bucket within its range: days, weeks (from the Monday the first
+// week starts on) or calendar months since the range start
+export const getBucketOffset = (periodStart: string, rangeStart: Date, interval: TrendInterval): number => {
+  const bucket = parseDateInputValue(periodStart.slice(0, 10));
+  if (interval === 'month') {
+    return (bucket.getFullYear() - rangeStart.getFullYear()) * 12 + bucket.getMonth() - rangeStart.getMonth();
+  }
+  const first = startOfDay(rangeStart);
+  if (interval === 'week') first.setDate(first.getDate() - ((first.getDay() + 6) % 7));
+  const days = Math.round((bucket.getTime() - first.getTime()) / (24 * 60 * 60 * 1000));
+  return interval === 'week' ? Math.round(days / 7) : days;
+};
+
+// The previous period's bucket at the same offset as each current one, so the
+// two line up even when their first buckets are partial weeks or months
+export const alignPreviousPoints = (
+  current: LeadTrendPoint[],
+  previous: LeadTrendPoint[],
+  range: DateRange,
+  interval: TrendInterval
+): Array<LeadTrendPoint | undefined> => {
+  const previousStart = getPreviousRange(range).start;
+  const byOffset = new Map(previous.map((p) => [getBucketOffset(p.period_start, previousStart, interval), p]));
+  return current.map((p) => byOffset.get(getBucketOffset(p.period_start, range.start, interval)));
+};
+
+export const getRangeDays = (range: DateRange) =>
+  Math.round((range.end.getTime() - range.start.getTime()) / (24 * 60 * 60 * 1000));
+
+// Keeps charts between roughly 7 and 30 buckets
+export const getDefaultInterval = (range: DateRange): TrendInterval => {
+  const days = getRangeDays(range);
+  if (days <= 31) return 'day';
+  return days <= 183 ? 'week' : 'month';
+};
+
+export const toTrendsParams = (range: DateRange, interval: TrendInterval): LeadTrendsParams => ({
+  start: range.start.toISOString(),
+  end: range.end.toISOString(),
+  interval,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+});
+
+// <input type="date"> values are local calendar days
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDateInputValue = (value: string) => new Date(`${value}T00:00:00`);
+
+// period_start is a calendar date in the requested time zone
+export const formatPeriodLabel = (periodStart: string, interval: TrendInterval) => {
+  const date = parseDateInputValue(periodStart.slice(0, 10));
+  return interval === 'month'
+    ? date.toLocaleDateString([], { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export const formatCohortLabel = (month: string) =>
+  parseDateInputValue(`${month}-01`).toLocaleDateString([], { month: 'short', year: 'numeric' });
+
+// Relative change against the previous period, or null when there's nothing to compare with
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous ? (current - previous) / previous : null;
@@ -0,0 +1,92 @@
+/**
+ * Undo for destructive lead operations
+ * Deletes are soft, so undo restores from trash; status changes are undone by
+ * writing the previous statuses back
+ */
+
+import { useQueryClient } from '@tanstack/react-query';
+import { leadsApi, trashApi, getApiErrorMessage } from './api';
+import { showToast } from './store/toasts';
+import { BulkOperationResponse, LeadStatus } from './types';
+
+// How long the Undo button stays available
+const UNDO_WINDOW = 10000;
+
+export interface LeadStatusChange {
+  lead_id: number;
+  previous_status: LeadStatus;
+}
+
+const describeCount = (count: number) => `${count.toLocaleString()} lead${count === 1 ? '' : 's'}`;
+
+const describeOutcome = (action: string, results: BulkOperationResponse[]) => {
+  const succeeded = results.reduce((sum, r) => sum + r.succeeded, 0);
+  const failed = results.reduce((sum, r) => sum + r.failed, 0);
+  return `${action} ${describeCount(succeeded)}${failed ? `, ${failed} failed` : ''}`;
+};
+
+export const useLeadUndo = () => {
+  const queryClient = useQueryClient();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['leads'] });
+    queryClient.invalidateQueries({ queryKey: ['lead'] });
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+  };
+
+  // Offer to restore leads that were just moved to trash
+  const offerDeleteUndo = (leadIds: number[], message: string) => {
+    if (leadIds.length === 0) return;
+
+    showToast({
+      message,
+      duration: UNDO_WINDOW,
+      action: {
+        label: 'Undo',
+        onClick: async () => {
+          try {
+            const result = await trashApi.restoreLeads(leadIds);
+            refresh();
+            showToast({ message: describeOutcome('Restored', [result]) });
+          } catch (error) {
+            alert(`Error: ${getApiErrorMessage(error, 'Failed to restore leads')}`);
+          }
+        },
+      },
+    });
+  };
+
+  // Offer to put back the statuses leads had before a change
+  const offerStatusUndo = (changes: LeadStatusChange[], message: string) => {
+    if (changes.length === 0) return;
+
+    showToast({
+      message,
+      duration: UNDO_WINDOW,
+      action: {
+        label: 'Undo',
+        onClick: async () => {
+          // One bulk update per previous status
+          const idsByStatus = new Map<LeadStatus, number[]>();
+          changes.forEach(({ lead_id, previous_status }) => {
+            idsByStatus.set(previous_status, [...(idsByStatus.get(previous_status) || []), lead_id]);
+          });
+
+          try {
+            const results = await Promise.all(
+              Array.from(idsByStatus, ([status, leadIds]) =>
+                leadsApi.bulkUpdateLeads({ lead_ids: leadIds }, { status })
+              )
+            );
+            refresh();
+            showToast({ message: describeOutcome('Reverted status of', results) });
+          } catch (error) {
+            alert(`Error: ${getApiErrorMessage(error, 'Failed to revert status changes')}`);
+          }
+        },
+      },
+    });
+  };
+
+  return { offerDeleteUndo, offerStatusUndo };
+};
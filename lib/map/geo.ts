@@ -0,0 +1,81 @@
+/**
+ * Map geometry helpers
+ * Lead geocoding queries, marker clustering and selection hit-testing
+ */
+
+import type { Lead } from '../types';
+import type { LatLng } from './providers';
+
+export type GeocodePrecision = 'address' | 'city';
+
+export interface LeadGeocodeQueries {
+  address?: string; // Street-level; only when the lead has a street address
+  city?: string; // City or zip centroid, used until (or instead of) the address resolves
+}
+
+export const getLeadGeocodeQueries = (lead: Lead): LeadGeocodeQueries => {
+  const area = [lead.city, [lead.state, lead.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return {
+    address: lead.address && area ? `${lead.address}, ${area}` : undefined,
+    city: area || undefined,
+  };
+};
+
+export interface MapPoint extends LatLng {
+  lead: Lead;
+  precision: GeocodePrecision;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface PointCluster {
+  points: MapPoint[];
+  center: LatLng;
+}
+
+// Group points whose screen positions fall in the same grid cell
+export const clusterPoints = (
+  points: MapPoint[],
+  toPixel: (point: LatLng) => PixelPoint,
+  cellSize: number
+): PointCluster[] => {
+  const cells = new Map<string, MapPoint[]>();
+  points.forEach((point) => {
+    const { x, y } = toPixel(point);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+
+  return Array.from(cells.values()).map((members) => ({
+    points: members,
+    center: {
+      lat: members.reduce((sum, p) => sum + p.lat, 0) / members.length,
+      lng: members.reduce((sum, p) => sum + p.lng, 0) / members.length,
+    },
+  }));
+};
+
+// Ray casting; fine for the small, screen-sized polygons drawn by a lasso
+export const isPointInPolygon = (point: LatLng, polygon: LatLng[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > point.lat !== b.lat > point.lat && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Fill color for a state's share of the busiest state's leads
+export const CHOROPLETH_COLORS = ['#eef2ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4338ca'];
+
+export const getChoroplethColor = (value: number, max: number) => {
+  if (!value || !max) return CHOROPLETH_COLORS[0];
+  const step = Math.ceil((value / max) * (CHOROPLETH_COLORS.length - 1));
+  return CHOROPLETH_COLORS[Math.min(step, CHOROPLETH_COLORS.length - 1)];
+};
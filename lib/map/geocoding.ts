@@ -0,0 +1,116 @@
+/**
+ * Lead geocoding
+ * Resolves leads to map points through the cache, geocoding what's missing
+ * one request at a time at the provider's pace
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { geocodeCacheKey, getFreshEntry, useGeocodeCacheStore } from '../store/geocode-cache';
+import type { Lead } from '../types';
+import { GeocodePrecision, MapPoint, getLeadGeocodeQueries } from './geo';
+import { LatLng, getMapProviders } from './providers';
+
+// Results are saved in batches, so the cache isn't copied and persisted after every lookup
+const FLUSH_EVERY = 10;
+const FLUSH_INTERVAL_MS = 3000;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Queries still to geocode: city-level first, so every lead gets on the map
+// quickly, then street addresses to refine them
+const getPendingQueries = (leads: Lead[], providerId: string): string[] => {
+  const { entries } = useGeocodeCacheStore.getState();
+  const isPending = (query?: string): query is string =>
+    !!query && !getFreshEntry(entries[geocodeCacheKey(providerId, query)]);
+
+  const queries = leads.map(getLeadGeocodeQueries);
+  return Array.from(
+    new Set([...queries.map((q) => q.city).filter(isPending), ...queries.map((q) => q.address).filter(isPending)])
+  );
+};
+
+export interface GeocodedLeads {
+  points: MapPoint[];
+  unlocated: number; // Leads with no usable location data, or that failed to resolve
+  pending: number; // Queries left in the queue
+  error: string | null;
+  isEnabled: boolean; // False when no geocoder is configured
+}
+
+export const useGeocodedLeads = (leads: Lead[] | undefined): GeocodedLeads => {
+  const entries = useGeocodeCacheStore((state) => state.entries);
+  const setEntries = useGeocodeCacheStore((state) => state.setEntries);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const { geocoder } = getMapProviders();
+
+  useEffect(() => {
+    if (!leads?.length || !geocoder) return;
+    const controller = new AbortController();
+
+    let batch: Record<string, LatLng | null> = {};
+    let flushedAt = Date.now();
+    const flush = () => {
+      if (Object.keys(batch).length > 0) setEntries(batch);
+      batch = {};
+      flushedAt = Date.now();
+    };
+
+    const run = async () => {
+      setError(null);
+      const queue = getPendingQueries(leads, geocoder.id);
+      for (let i = 0; i < queue.length; i++) {
+        setPending(queue.length - i);
+        try {
+          batch[geocodeCacheKey(geocoder.id, queue[i])] = await geocoder.geocode(queue[i], controller.signal);
+        } catch (err) {
+          // Network and rate-limit failures aren't cached, so they're retried next time
+          if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Geocoding failed');
+          break;
+        }
+        if (Object.keys(batch).length >= FLUSH_EVERY || Date.now() - flushedAt >= FLUSH_INTERVAL_MS) flush();
+        await wait(geocoder.minIntervalMs, controller.signal);
+        if (controller.signal.aborted) break;
+      }
+      flush();
+      if (!controller.signal.aborted) setPending(0);
+    };
+
+    run();
+    return () => {
+      controller.abort();
+      // Keep what was resolved before the leads changed or the page was left
+      flush();
+    };
+  }, [leads, geocoder, setEntries]);
+
+  const points = useMemo(() => {
+    if (!leads || !geocoder) return [];
+    const lookup = (query?: string) =>
+      query ? getFreshEntry(entries[geocodeCacheKey(geocoder.id, query)])?.location : undefined;
+
+    return leads.flatMap((lead): MapPoint[] => {
+      const queries = getLeadGeocodeQueries(lead);
+      const address = lookup(queries.address);
+      const city = lookup(queries.city);
+      const location = address || city;
+      const precision: GeocodePrecision = address ? 'address' : 'city';
+      return location ? [{ ...location, lead, precision }] : [];
+    });
+  }, [leads, entries, geocoder]);
+
+  return {
+    points,
+    unlocated: (leads?.length || 0) - points.length,
+    pending: leads?.length && geocoder ? pending : 0,
+    error,
+    isEnabled: !!geocoder,
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * Map providers
+ * Tile and geocoding services behind small interfaces. Neither is used until
+ * configured, since the public OpenStreetMap servers don't allow this kind of
+ * bulk use: the map then shows state boundaries only and leads aren't geocoded
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface TileProvider {
+  url: string; // Leaflet URL template, e.g. https://{s}.tile.example.org/{z}/{x}/{y}.png
+  attribution: string;
+  maxZoom: number;
+}
+
+export interface GeocodingProvider {
+  id: string; // Part of the cache key, so switching providers doesn't reuse stale results
+  minIntervalMs: number; // Delay between requests required by the provider's usage policy
+  geocode: (query: string, signal?: AbortSignal) => Promise<LatLng | null>;
+}
+
+// Any Nominatim-compatible search endpoint (a self-hosted instance, a
+// commercial Nominatim host, or a local stand-in serving the same JSON)
+export const createNominatimGeocoder = (baseUrl: string, minIntervalMs = 1000): GeocodingProvider => ({
+  id: `nominatim:${baseUrl}`,
+  minIntervalMs,
+  geocode: async (query, signal) => {
+    const url = `${baseUrl.replace(/\/$/, '')}/search?format=json&limit=1&countrycodes=us&q=${encodeURIComponent(query)}`;
+    const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+    const results: Array<{ lat: string; lon: string }> = await response.json();
+    return results.length > 0 ? { lat: Number(results[0].lat), lng: Number(results[0].lon) } : null;
+  },
+});
+
+const defaultTileProvider: TileProvider | null = process.env.NEXT_PUBLIC_MAP_TILE_URL
+  ? {
+      url: process.env.NEXT_PUBLIC_MAP_TILE_URL,
+      attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '',
+      maxZoom: 19,
+    }
+  : null;
+
+const defaultGeocoder: GeocodingProvider | null = process.env.NEXT_PUBLIC_GEOCODER_URL
+  ? createNominatimGeocoder(process.env.NEXT_PUBLIC_GEOCODER_URL, Number(process.env.NEXT_PUBLIC_GEOCODER_INTERVAL_MS) || 1000)
+  : null;
+
+let providers = { tiles: defaultTileProvider, geocoder: defaultGeocoder };
+
+export const GEOCODER_SETUP_HINT =
+  'Geocoding is off, so leads can\'t be placed. Set NEXT_PUBLIC_GEOCODER_URL to a Nominatim-compatible geocoder to enable it.';
+
+export const getMapProviders = () => providers;
+
+// Replace either provider at runtime, e.g. from a test harness
+export const setMapProviders = (overrides: Partial<typeof providers>) => {
+  providers = { ...providers, ...overrides };
+};
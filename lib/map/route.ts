@@ -0,0 +1,64 @@
+/**
+ * Visit route planning
+ * Orders stops to keep driving distance short: nearest neighbour to start,
+ * then 2-opt to remove crossings. Straight-line distances, which is plenty
+ * for ordering a day's visits
+ */
+
+import type { LatLng } from './providers';
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export const distanceMiles = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+};
+
+// Total length of the path through the stops, from start when given
+export const routeDistanceMiles = (stops: LatLng[], start?: LatLng): number => {
+  const path = start ? [start, ...stops] : stops;
+  return path.slice(1).reduce((sum, stop, i) => sum + distanceMiles(path[i], stop), 0);
+};
+
+// Stops in visiting order. Without a start, the route begins at the first stop
+export const optimizeRoute = <T extends LatLng>(stops: T[], start?: LatLng): T[] => {
+  if (stops.length < 3 && !start) return [...stops];
+
+  // Nearest neighbour
+  const remaining = [...stops];
+  const route: T[] = [];
+  let current: LatLng = start || remaining.shift()!;
+  if (!start) route.push(current as T);
+  while (remaining.length > 0) {
+    let nearest = 0;
+    remaining.forEach((stop, i) => {
+      if (distanceMiles(current, stop) < distanceMiles(current, remaining[nearest])) nearest = i;
+    });
+    current = remaining.splice(nearest, 1)[0];
+    route.push(current as T);
+  }
+
+  // 2-opt: reverse any segment that shortens the path, until none does. The
+  // path is open (no return leg), so only a fixed start is pinned in place
+  const path: LatLng[] = start ? [start, ...route] : route;
+  const edge = (a?: LatLng, b?: LatLng) => (a && b ? distanceMiles(a, b) : 0);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = start ? 1 : 0; i < path.length - 1; i++) {
+      for (let j = i + 1; j < path.length; j++) {
+        const before = edge(path[i - 1], path[i]) + edge(path[j], path[j + 1]);
+        const after = edge(path[i - 1], path[j]) + edge(path[i], path[j + 1]);
+        if (after < before - 1e-9) {
+          path.splice(i, j - i + 1, ...path.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return (start ? path.slice(1) : path) as T[];
+};
@@ -0,0 +1,164 @@
+/**
+ * Source report helpers
+ * Groups per-file lead funnels by source, joins in list costs and derives
+ * conversion, cost per lead and ROI
+ */
+
+import { toCsv } from './csv';
+import { STATUS_LABELS } from './lead-fields';
+import { formatPercent } from './lead-stats';
+import { LeadStatus, type LeadSourceFunnel, type SourceFileCost } from './types';
+
+// Stages in pipeline order; lost is left out since it can happen at any stage
+export const FUNNEL_STAGES: LeadStatus[] = [
+  LeadStatus.NEW,
+  LeadStatus.CONTACTED,
+  LeadStatus.QUALIFIED,
+  LeadStatus.PROPOSAL,
+  LeadStatus.NEGOTIATION,
+  LeadStatus.WON,
+];
+
+export const REPORT_STATUSES = Object.values(LeadStatus);
+
+export interface SourceReportRow {
+  source: string;
+  source_file: string | null; // null on source totals and for leads not from an import
+  total: number;
+  by_status: Partial<Record<LeadStatus, number>>;
+  won_value: number;
+  // Cost and the figures it is measured against, over files with a cost entered
+  cost: number | null;
+  costed_total: number;
+  costed_won: number;
+  costed_won_value: number;
+}
+
+export interface SourceReportGroup {
+  totals: SourceReportRow;
+  files: SourceReportRow[];
+}
+
+// Costs are per source and file, as the same file name can turn up under two sources
+const costKey = (source: string, sourceFile: string) => JSON.stringify([source, sourceFile]);
+
+const toFileRow = (funnel: LeadSourceFunnel, costs: Map<string, number>): SourceReportRow => {
+  const cost = funnel.source_file ? costs.get(costKey(funnel.source, funnel.source_file)) : undefined;
+  const won = funnel.by_status.won || 0;
+  return {
+    source: funnel.source,
+    source_file: funnel.source_file,
+    total: funnel.total,
+    by_status: funnel.by_status,
+    won_value: funnel.won_value,
+    cost: cost ?? null,
+    costed_total: cost !== undefined ? funnel.total : 0,
+    costed_won: cost !== undefined ? won : 0,
+    costed_won_value: cost !== undefined ? funnel.won_value : 0,
+  };
+};
+
+const sumRows = (source: string, rows: SourceReportRow[]): SourceReportRow => {
+  const by_status: Partial<Record<LeadStatus, number>> = {};
+  REPORT_STATUSES.forEach((status) => {
+    by_status[status] = rows.reduce((sum, row) => sum + (row.by_status[status] || 0), 0);
+  });
+  const costed = rows.filter((row) => row.cost !== null);
+  return {
+    source,
+    source_file: null,
+    total: rows.reduce((sum, row) => sum + row.total, 0),
+    by_status,
+    won_value: rows.reduce((sum, row) => sum + row.won_value, 0),
+    cost: costed.length > 0 ? costed.reduce((sum, row) => sum + row.cost!, 0) : null,
+    costed_total: rows.reduce((sum, row) => sum + row.costed_total, 0),
+    costed_won: rows.reduce((sum, row) => sum + row.costed_won, 0),
+    costed_won_value: rows.reduce((sum, row) => sum + row.costed_won_value, 0),
+  };
+};
+
+// Sources with the most leads first, each with its files
+export const buildSourceReport = (funnels: LeadSourceFunnel[], costs: SourceFileCost[]): SourceReportGroup[] => {
+  const costsByFile = new Map(costs.map((c) => [costKey(c.source, c.source_file), c.cost]));
+  const bySource = new Map<string, SourceReportRow[]>();
+  funnels.forEach((funnel) => {
+    bySource.set(funnel.source, [...(bySource.get(funnel.source) || []), toFileRow(funnel, costsByFile)]);
+  });
+
+  return Array.from(bySource.entries())
+    .map(([source, files]) => ({
+      totals: sumRows(source, files),
+      files: [...files].sort((a, b) => b.total - a.total),
+    }))
+    .sort((a, b) => b.totals.total - a.totals.total);
+};
+
+export const getReportTotals = (groups: SourceReportGroup[]): SourceReportRow =>
+  sumRows('All sources', groups.map((g) => g.totals));
+
+// Leads that reached each stage: those in it now or in any later stage.
+// Lost leads only count toward the first stage, as where they dropped out isn't known
+export const getFunnelCounts = (row: SourceReportRow): Array<{ status: LeadStatus; count: number }> =>
+  FUNNEL_STAGES.map((status, i) => ({
+    status,
+    count:
+      i === 0
+        ? row.total
+        : FUNNEL_STAGES.slice(i).reduce((sum, later) => sum + (row.by_status[later] || 0), 0),
+  }));
+
+export interface SourceReportMetrics {
+  conversionRate: number; // Won share of all leads
+  costPerLead: number | null;
+  costPerWon: number | null;
+  roi: number | null; // (won value - cost) / cost
+}
+
+export const getRowMetrics = (row: SourceReportRow): SourceReportMetrics => {
+  const won = row.by_status.won || 0;
+  const { cost } = row;
+  return {
+    conversionRate: row.total > 0 ? won / row.total : 0,
+    costPerLead: cost !== null && row.costed_total > 0 ? cost / row.costed_total : null,
+    costPerWon: cost !== null && row.costed_won > 0 ? cost / row.costed_won : null,
+    roi: cost ? (row.costed_won_value - cost) / cost : null,
+  };
+};
+
+export const sourceReportToCsv = (groups: SourceReportGroup[]): string => {
+  const toCells = (row: SourceReportRow, file: string) => {
+    const metrics = getRowMetrics(row);
+    const money = (value: number | null) => (value === null ? undefined : Math.round(value * 100) / 100);
+    return [
+      row.source,
+      file,
+      row.total,
+      ...REPORT_STATUSES.map((status) => row.by_status[status] || 0),
+      formatPercent(metrics.conversionRate),
+      row.won_value,
+      money(row.cost),
+      money(metrics.costPerLead),
+      money(metrics.costPerWon),
+      metrics.roi === null ? undefined : formatPercent(metrics.roi),
+    ];
+  };
+
+  return toCsv(
+    [
+      'Source',
+      'Source File',
+      'Leads',
+      ...REPORT_STATUSES.map((status) => STATUS_LABELS[status]),
+      'Conversion',
+      'Won Value',
+      'Cost',
+      'Cost per Lead',
+      'Cost per Won',
+      'ROI',
+    ],
+    groups.flatMap((group) => [
+      toCells(group.totals, 'All files'),
+      ...group.files.map((file) => toCells(file, file.source_file || '(no file)')),
+    ])
+  );
+};
@@ -0,0 +1,35 @@
+/**
+ * Follow-up Reminders Store with Zustand
+ * Remembers which due follow-ups were already announced in this browser
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Enough to cover everything due at once without growing forever
+const MAX_REMINDED_KEYS = 500;
+
+interface FollowupRemindersState {
+  // `${leadId}:${next_followup_date}`, so rescheduling a lead reminds again
+  remindedKeys: string[];
+
+  // Actions
+  markReminded: (keys: string[]) => void;
+}
+
+export const useFollowupRemindersStore = create<FollowupRemindersState>()(
+  persist(
+    (set) => ({
+      remindedKeys: [],
+
+      markReminded: (keys: string[]) => {
+        set((state) => ({
+          remindedKeys: [...state.remindedKeys, ...keys].slice(-MAX_REMINDED_KEYS),
+        }));
+      },
+    }),
+    {
+      name: 'followup-reminders-storage',
+    }
+  )
+);
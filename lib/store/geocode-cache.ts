@@ -0,0 +1,66 @@
+/**
+ * Geocode Cache Store with Zustand
+ * Remembers resolved addresses in this browser so the map doesn't geocode
+ * them again; misses are cached too, since retrying them won't help
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { LatLng } from '../map/providers';
+
+// Roughly 100 bytes each, well within localStorage limits
+const MAX_ENTRIES = 20000;
+
+// Misses are retried after a while in case the provider's data improved
+const MISS_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface GeocodeCacheEntry {
+  location: LatLng | null;
+  cached_at: number;
+}
+
+interface GeocodeCacheState {
+  // `${provider id}|${normalized query}`
+  entries: Record<string, GeocodeCacheEntry>;
+
+  // Actions
+  setEntries: (found: Record<string, LatLng | null>) => void;
+  clear: () => void;
+}
+
+export const useGeocodeCacheStore = create<GeocodeCacheState>()(
+  persist(
+    (set) => ({
+      entries: {},
+
+      // Takes results in batches, since every call copies and persists the whole cache
+      setEntries: (found: Record<string, LatLng | null>) => {
+        set((state) => {
+          const entries = { ...state.entries };
+          const cachedAt = Date.now();
+          Object.entries(found).forEach(([key, location]) => {
+            // Object keys keep insertion order, so deleting first moves a re-cached
+            // key to the end and the oldest entries are the ones evicted
+            delete entries[key];
+            entries[key] = { location, cached_at: cachedAt };
+          });
+          const keys = Object.keys(entries);
+          keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES)).forEach((k) => delete entries[k]);
+          return { entries };
+        });
+      },
+
+      clear: () => set({ entries: {} }),
+    }),
+    {
+      name: 'geocode-cache-storage',
+    }
+  )
+);
+
+export const geocodeCacheKey = (providerId: string, query: string) =>
+  `${providerId}|${query.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+// A cached entry that can be used as-is, or undefined when the query should be (re)geocoded
+export const getFreshEntry = (entry: GeocodeCacheEntry | undefined): GeocodeCacheEntry | undefined =>
+  entry && (entry.location || Date.now() - entry.cached_at < MISS_TTL_MS) ? entry : undefined;
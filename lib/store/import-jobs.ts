@@ -0,0 +1,42 @@
+/**
+ * Import Jobs Store with Zustand
+ * Tracks background import jobs started from this browser so their progress
+ * stays visible across page navigation and reloads
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface ImportJobsState {
+  // Jobs shown in the progress tracker, oldest first
+  trackedJobIds: number[];
+
+  // Actions
+  trackJob: (jobId: number) => void;
+  dismissJob: (jobId: number) => void;
+}
+
+export const useImportJobsStore = create<ImportJobsState>()(
+  persist(
+    (set) => ({
+      trackedJobIds: [],
+
+      trackJob: (jobId: number) => {
+        set((state) => ({
+          trackedJobIds: state.trackedJobIds.includes(jobId)
+            ? state.trackedJobIds
+            : [...state.trackedJobIds, jobId],
+        }));
+      },
+
+      dismissJob: (jobId: number) => {
+        set((state) => ({
+          trackedJobIds: state.trackedJobIds.filter((id) => id !== jobId),
+        }));
+      },
+    }),
+    {
+      name: 'import-jobs-storage',
+    }
+  )
+);
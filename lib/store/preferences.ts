@@ -0,0 +1,51 @@
+/**
+ * User Preferences Store with Zustand
+ * Per-user UI preferences persisted in localStorage
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface PreferencesState {
+  // Visible lead table columns (in display order), keyed by user ID
+  leadColumnsByUser: Record<number, string[]>;
+  // Last fields picked in the export dialog, keyed by user ID
+  exportFieldsByUser: Record<number, string[]>;
+
+  // Actions
+  setLeadColumns: (userId: number, columns: string[]) => void;
+  resetLeadColumns: (userId: number) => void;
+  setExportFields: (userId: number, fields: string[]) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      leadColumnsByUser: {},
+      exportFieldsByUser: {},
+
+      setLeadColumns: (userId: number, columns: string[]) => {
+        set((state) => ({
+          leadColumnsByUser: { ...state.leadColumnsByUser, [userId]: columns },
+        }));
+      },
+
+      resetLeadColumns: (userId: number) => {
+        set((state) => {
+          const leadColumnsByUser = { ...state.leadColumnsByUser };
+          delete leadColumnsByUser[userId];
+          return { leadColumnsByUser };
+        });
+      },
+
+      setExportFields: (userId: number, fields: string[]) => {
+        set((state) => ({
+          exportFieldsByUser: { ...state.exportFieldsByUser, [userId]: fields },
+        }));
+      },
+    }),
+    {
+      name: 'preferences-storage',
+    }
+  )
+);
@@ -0,0 +1,49 @@
+/**
+ * Route Visits Store with Zustand
+ * Stops marked visited on the route planner, so a day's route survives
+ * reloads while the rep is out in the field
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface RouteVisitsState {
+  // Visit time (ISO) keyed by lead ID, per user ID, as a browser may be shared
+  visitsByUser: Record<number, Record<number, string>>;
+
+  // Actions
+  markVisited: (userId: number, leadId: number, visitedAt: string) => void;
+  clearVisits: (userId: number) => void;
+}
+
+export const useRouteVisitsStore = create<RouteVisitsState>()(
+  persist(
+    (set) => ({
+      visitsByUser: {},
+
+      markVisited: (userId: number, leadId: number, visitedAt: string) => {
+        set((state) => ({
+          visitsByUser: {
+            ...state.visitsByUser,
+            [userId]: { ...state.visitsByUser[userId], [leadId]: visitedAt },
+          },
+        }));
+      },
+
+      clearVisits: (userId: number) => {
+        set((state) => {
+          const visitsByUser = { ...state.visitsByUser };
+          delete visitsByUser[userId];
+          return { visitsByUser };
+        });
+      },
+    }),
+    {
+      name: 'route-visits-storage',
+    }
+  )
+);
+
+// Only today's visits count; tomorrow's route starts fresh
+export const isVisitedToday = (visitedAt: string | undefined): boolean =>
+  !!visitedAt && new Date(visitedAt).toDateString() === new Date().toDateString();
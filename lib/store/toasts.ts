@@ -0,0 +1,53 @@
+/**
+ * Toasts Store with Zustand
+ * Short-lived notifications, optionally with an action such as Undo
+ */
+
+import { create } from 'zustand';
+
+const DEFAULT_DURATION = 5000;
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  action?: ToastAction;
+  duration: number; // Milliseconds before it disappears on its own
+}
+
+export type ToastInput = Omit<Toast, 'id' | 'duration'> & { duration?: number };
+
+interface ToastsState {
+  toasts: Toast[];
+
+  // Actions
+  showToast: (toast: ToastInput) => number;
+  dismissToast: (toastId: number) => void;
+}
+
+let nextToastId = 1;
+
+export const useToastsStore = create<ToastsState>()((set) => ({
+  toasts: [],
+
+  showToast: (toast: ToastInput) => {
+    const id = nextToastId++;
+    set((state) => ({
+      toasts: [...state.toasts, { duration: DEFAULT_DURATION, ...toast, id }],
+    }));
+    return id;
+  },
+
+  dismissToast: (toastId: number) => {
+    set((state) => ({
+      toasts: state.toasts.filter((toast) => toast.id !== toastId),
+    }));
+  },
+}));
+
+// Usable outside components, e.g. from mutation callbacks
+export const showToast = (toast: ToastInput) => useToastsStore.getState().showToast(toast);
@@ -0,0 +1,29 @@
+/**
+ * Territory helpers
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { territoriesApi } from './api';
+import type { Territory } from './types';
+
+export const useTerritories = () =>
+  useQuery({
+    queryKey: ['territories'],
+    queryFn: async () => {
+      const territories = await territoriesApi.listTerritories();
+      return [...territories].sort((a, b) => a.name.localeCompare(b.name));
+    },
+  });
+
+// Comma- or newline-separated input, as typed into the territory form
+export const parseTerritoryList = (value: string) =>
+  value.split(/[,\n]/).map((item) => item.trim()).filter(Boolean);
+
+export const describeTerritoryArea = (territory: Territory): string =>
+  [
+    territory.states.length > 0 && `${territory.states.length} state${territory.states.length === 1 ? '' : 's'}`,
+    territory.cities.length > 0 && `${territory.cities.length} cit${territory.cities.length === 1 ? 'y' : 'ies'}`,
+    territory.zip_codes.length > 0 && `${territory.zip_codes.length} zip code${territory.zip_codes.length === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(', ') || 'No area defined';
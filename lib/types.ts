@@ -149,7 +149,8 @@ export interface Lead {
   preferred_contact_time?: string;
 
   // Assignment
-  assigned_to?: string;
+  assigned_to_id?: number | null; // Approved user; sent as null to unassign
+  assigned_to?: string; // Assignee's name, set by the backend from assigned_to_id
 
   // External IDs (for integration)
   telegram_user_id?: string;
@@ -160,7 +161,7 @@ export interface Lead {
   // Dates
   first_contact_date?: string;
   last_contact_date?: string;
-  next_followup_date?: string;
+  next_followup_date?: string | null; // Sent as null to clear it
 
   // Additional Information
   notes_summary?: string;
@@ -172,27 +173,457 @@ export interface Lead {
   updated_at: string;
   is_deleted?: boolean;
   deleted_at?: string;
+  deleted_by?: string; // Email of the user who moved it to trash
+}
+
+// Lead List Sorting
+export type LeadSortField =
+  | 'created_at'
+  | 'updated_at'
+  | 'priority'
+  | 'estimated_value'
+  | 'next_followup_date'
+  | 'last_contact_date'
+  | 'city'
+  | 'status';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Lead List Query Parameters
+export interface LeadListParams {
+  page?: number;
+  page_size?: number;
+  status?: string;
+  statuses?: LeadStatus[]; // Matches any of the given statuses
+  source?: string;
+  search?: string;
+  city?: string;
+  state?: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  has_phone?: boolean; // Any of phone, phone_2..4, landline_1..4
+  has_email?: boolean; // Either email or email_2
+  assigned_to_me?: boolean; // Assigned to the logged-in user
+  assigned_to_id?: number;
+  unassigned?: boolean;
+  territory_id?: number;
+  lead_ids?: number[]; // Only these leads, e.g. an area selected on the map
+  followup_after?: string; // ISO datetime, inclusive
+  followup_before?: string; // ISO datetime, exclusive
+  contact_after?: string; // Bounds on last_contact_date, like the followup_* pair
+  contact_before?: string;
+  sort_by?: LeadSortField;
+  sort_order?: SortOrder;
+}
+
+// Lead Counts (computed server-side over the whole filtered set)
+export interface LeadCounts {
+  total: number;
+  has_phone: number;
+  has_email: number;
+  by_status: Partial<Record<LeadStatus, number>>;
+  value_by_status: Partial<Record<LeadStatus, number>>; // Summed estimated_value
+}
+
+// Lead Stats (dashboard analytics, computed server-side over the whole filtered set)
+export interface LeadStatsGroup {
+  key: string; // Status, source, priority ('1'-'5') or assignee user ID; '' when not set
+  label?: string; // Display name when the key is an ID (the assignee's name)
+  count: number;
+  won: number;
+  value: number; // Summed estimated_value
+}
+
+export interface LeadStats {
+  total: number;
+  by_status: LeadStatsGroup[];
+  by_source: LeadStatsGroup[];
+  by_priority: LeadStatsGroup[];
+  by_assignee: LeadStatsGroup[];
+}
+
+// Lead Trends (dashboard charts). Buckets are computed server-side in the
+// given time zone, and every bucket in the range is returned, even when empty
+export type TrendInterval = 'day' | 'week' | 'month';
+
+export interface LeadTrendsParams {
+  start: string; // ISO datetime, inclusive
+  end: string; // ISO datetime, exclusive
+  interval: TrendInterval;
+  timezone: string; // IANA name, e.g. America/Chicago
+}
+
+export interface LeadTrendPoint {
+  period_start: string; // ISO date of the bucket (weeks start on Monday)
+  created: number;
+  transitions: Partial<Record<LeadStatus, number>>; // Leads moved into each status
+}
+
+// Leads created in one month, and how many of them were eventually won or lost
+export interface LeadCohort {
+  month: string; // YYYY-MM
+  created: number;
+  won: number;
+  lost: number;
+}
+
+// Average time spent in a status, over leads that left it during the range
+export interface LeadStageDuration {
+  status: LeadStatus;
+  avg_days: number;
+  sample_size: number;
+}
+
+export interface LeadTrends {
+  points: LeadTrendPoint[];
+  cohorts: LeadCohort[];
+  stage_durations: LeadStageDuration[];
+}
+
+// Lead Filters (the full filter state of the leads list, as stored in saved views)
+export interface LeadFilters {
+  search: string;
+  status: LeadStatus | 'ALL';
+  source: string;
+  city: string;
+  state: string;
+  name: string;
+  phone: string;
+  email: string;
+  has_phone: boolean;
+  has_email: boolean;
+  won: boolean;
+  mine: boolean; // Assigned to the logged-in user
+  assignee: string; // User ID, 'none' for unassigned, or '' for anyone
+  territory: string; // Territory ID, or '' for anywhere
+  ids: string; // Comma-separated lead IDs, or '' for any lead
+  sort_by: LeadSortField;
+  sort_order: SortOrder;
+}
+
+// Saved View
+export interface SavedView {
+  id: number;
+  name: string;
+  filters: Partial<LeadFilters>;
+  is_shared: boolean; // Visible to the whole team
+  owner_id: number;
+  owner_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewCreate {
+  name: string;
+  filters: LeadFilters;
+  is_shared: boolean;
+}
+
+// Bulk operation target: explicit lead IDs, or every lead matching a filter
+export type LeadSelection =
+  | { lead_ids: number[]; filters?: never }
+  | { filters: LeadListParams; lead_ids?: never };
+
+export interface LeadBulkChanges {
+  status?: LeadStatus;
+  priority?: number;
+  assigned_to_id?: number | null; // null unassigns
+  add_tags?: string[];
+  remove_tags?: string[];
+}
+
+export interface BulkLeadResult {
+  lead_id: number;
+  lead_name?: string;
+  success: boolean;
+  error?: string;
+  previous_status?: LeadStatus; // Set by status changes, so they can be undone
+}
+
+export interface BulkOperationResponse {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkLeadResult[];
+}
+
+// Duplicate Detection
+export type DuplicateMatchType = 'phone' | 'email' | 'name_address';
+
+// Leads sharing a normalized phone (across phone, phone_2..4 and landline_1..4),
+// email, or name + address
+export interface DuplicateGroup {
+  key: string;
+  match_type: DuplicateMatchType;
+  match_value: string;
+  leads: Lead[];
+}
+
+// Lead Merge: field -> ID of the lead whose value wins (keeper's value otherwise)
+export type LeadFieldWinners = Partial<Record<keyof Lead, number>>;
+
+// Where a merge was started; recorded in the keeper's activity history
+export type LeadMergeSource = 'duplicate_review' | 'manual';
+
+export interface LeadMergeRequest {
+  keeper_id: number;
+  merged_ids: number[];
+  fields: LeadFieldWinners;
+  source?: LeadMergeSource;
+  dry_run?: boolean;
+}
+
+export interface LeadFieldChange {
+  field: keyof Lead;
+  old_value: string | number | null;
+  new_value: string | number | null;
+}
+
+// Field History: where a change came from. Screens pass their own source with
+// updateLead; bulk updates, imports and merges are tagged by the backend
+export type LeadChangeSource =
+  | 'detail_page'
+  | 'leads_table'
+  | 'pipeline'
+  | 'followups'
+  | 'calendar'
+  | 'route_planner'
+  | 'bulk_update'
+  | 'import'
+  | 'assignment_rule'
+  | 'merge'
+  | 'revert'
+  | 'api';
+
+export interface LeadFieldHistoryEntry extends LeadFieldChange {
+  id: number;
+  lead_id: number;
+  source: LeadChangeSource;
+  import_job_id?: number; // Set when source is 'import'
+  changed_by?: string; // Email of the user who made the change
+  changed_at: string;
+}
+
+export interface LeadMergeResult {
+  dry_run: boolean;
+  keeper: Lead; // As it is (or would be) after the merge
+  removed_ids: number[];
+  changes: LeadFieldChange[];
+  // Records re-pointed from the removed leads to the keeper
+  reassigned: {
+    chat_sessions: number;
+    notes: number;
+    activities: number;
+  };
+}
+
+// Lead Assignment: one reassignment of a lead, newest first in the history
+export type LeadAssignmentMethod = 'manual' | 'bulk' | 'round_robin' | 'territory';
+
+export interface LeadAssignment {
+  id: number;
+  lead_id: number;
+  from_user_id?: number | null;
+  from_user_name?: string;
+  to_user_id?: number | null; // null when the lead was unassigned
+  to_user_name?: string;
+  method: LeadAssignmentMethod;
+  rule_id?: number; // Set when an auto-assignment rule made the change
+  rule_name?: string;
+  assigned_by?: string; // Email of the user; empty for automatic assignment
+  created_at: string;
+}
+
+// Auto-assignment rules are tried in priority order when a lead is created or
+// imported without an assignee; the first matching rule assigns it
+export type AssignmentRuleType = 'round_robin' | 'territory';
+
+export interface AssignmentRule {
+  id: number;
+  name: string;
+  rule_type: AssignmentRuleType;
+  user_ids: number[]; // Round-robin rules: rotated through in order
+  territory_id?: number | null; // Territory rules: leads in it rotate through the territory's owners
+  territory_name?: string;
+  priority: number; // Lower runs first
+  is_active: boolean;
+  last_assigned_user_id?: number; // Round-robin position
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssignmentRuleCreate {
+  name: string;
+  rule_type: AssignmentRuleType;
+  user_ids: number[];
+  territory_id?: number | null;
+  priority: number;
+  is_active: boolean;
+}
+
+// Territory: a named area owned by one or more users. A lead is in a territory
+// when its zip code, city or state is listed; territories may overlap
+export interface Territory {
+  id: number;
+  name: string;
+  states: string[]; // Two-letter codes
+  cities: string[];
+  zip_codes: string[];
+  user_ids: number[]; // Owners
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TerritoryCreate {
+  name: string;
+  states: string[];
+  cities: string[];
+  zip_codes: string[];
+  user_ids: number[];
+}
+
+export interface TerritoryStats {
+  territory_id: number;
+  total_leads: number;
+  unassigned_leads: number;
+  statuses: Partial<Record<LeadStatus, number>>;
+}
+
+// Source Attribution: leads per status for one source file of a source
+export interface LeadSourceFunnel {
+  source: string;
+  source_file: string | null; // null for leads not created by an import
+  total: number;
+  by_status: Partial<Record<LeadStatus, number>>;
+  won_value: number; // Summed estimated_value of won leads
+}
+
+// What a purchased list cost, entered by managers per source and source file;
+// file names are only unique within a source
+export interface SourceFileCost {
+  source: string;
+  source_file: string;
+  cost: number;
+  updated_at: string;
+  updated_by?: string; // Email of the manager who set it
+}
+
+// Import Job Status (lowercase to match backend enum values)
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// Lead import running in the background on the server
+export interface ImportJob {
+  id: number;
+  file_name: string;
+  source_file?: string;
+  status: ImportJobStatus;
+  total_rows: number;
+  processed_rows: number;
+  created: number;
+  skipped: number; // Duplicates and rows excluded at preview
+  failed: number;
+  message?: string; // Set when the whole job fails
+  created_by?: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+}
+
+export interface ImportJobError {
+  row: number;
+  error: string;
+  data?: Record<string, string>; // Original cells of the failed row
+}
+
+// Display header -> Lead field, as edited in the import dialog; unmapped headers are ignored
+export type ImportColumnMapping = Record<string, keyof Lead>;
+
+// A mapped spreadsheet column as sent to the server: by position, since blank
+// and repeated headers only get their display names in the browser
+export interface ImportColumn {
+  index: number; // 0-based column position
+  header: string; // Header as it is in the file, possibly blank
+  field: keyof Lead;
+}
+
+export interface ImportOptions {
+  columns?: ImportColumn[];
+  skip_rows?: number[]; // Spreadsheet row numbers (header is row 1)
+  source?: string; // Set on every imported lead, e.g. the list vendor
+  source_file?: string; // Identifies this upload on its leads; defaults to the file name
+}
+
+// Saved column mapping for a recurring list vendor
+export interface ImportTemplate {
+  id: number;
+  name: string;
+  vendor: string; // Stored on imported leads as source
+  columns: ImportColumn[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImportTemplateCreate {
+  name: string;
+  vendor: string;
+  columns: ImportColumn[];
+}
+
+// Trash: soft-deleted leads are purged automatically once older than the retention window
+export interface TrashListParams {
+  page?: number;
+  page_size?: number;
+  search?: string;
+}
+
+export interface TrashSettings {
+  retention_days: number;
+  next_purge_at?: string;
 }
 
 // Activity Model
 export interface Activity {
   id: number;
   lead_id: number;
-  activity_type: string;
+  activity_type: string; // e.g. 'status_change', 'field_update', 'merge', 'call'
   description: string;
+  created_by?: string;
+  // Set on status_change and field_update activities
+  field?: keyof Lead;
+  old_value?: string | number | null;
+  new_value?: string | number | null;
   created_at: string;
 }
 
+export interface ActivityCreate {
+  activity_type: string;
+  description: string;
+}
+
 // Note Model
 export interface Note {
   id: number;
   lead_id: number;
-  content: string;
-  created_by?: string;
+  content: string; // Markdown
+  is_pinned: boolean;
+  created_by?: string; // Author's email, set by the backend from the logged-in user
+  created_by_name?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface NoteCreate {
+  content: string;
+  is_pinned?: boolean;
+}
+
 // Enums for Chat
 export enum MessageSender {
   LEAD = 'lead',